@@ -0,0 +1,112 @@
+/**
+ * Epicurrents EDF annotation importer.
+ * @package    epicurrents/edf-reader
+ * @copyright  2024 Sampsa Lohi
+ * @license    Apache-2.0
+ */
+
+import { type AnnotationTemplate } from '@epicurrents/core/dist/types'
+import { type EdfAnnotationImportOptions } from '#types'
+import Log from 'scoped-event-log'
+import { detectDelimiter, splitDelimitedRow } from '#util'
+
+const SCOPE = 'EdfAnnotationImporter'
+
+/** Default column names of each annotation property in the header row, in the order of preference. */
+const DEFAULT_COLUMNS = {
+    channels: ['channel', 'channels'],
+    duration: ['duration'],
+    label: ['trial_type', 'label', 'description', 'annotation', 'value', 'text'],
+    onset: ['onset'],
+}
+
+/**
+ * EdfAnnotationImporter parses annotations from delimited text files (such as CSV or TSV), for example BIDS
+ * `events.tsv` files or annotation lists exported from scoring software. The parsed annotations can be written into
+ * EDF+ files or added to the annotations of a recording opened in the `EdfProcesser`.
+ *
+ * The columns of the annotation properties can be given in the options as column names or indices. By default, the
+ * columns are matched by name if the file has a header row, and otherwise the first three columns are expected to
+ * contain the onset, duration and label of the annotation. Durations that are empty or `n/a` are read as zero.
+ */
+export default class EdfAnnotationImporter {
+    protected _options: EdfAnnotationImportOptions
+
+    constructor (options = {} as EdfAnnotationImportOptions) {
+        this._options = options
+    }
+
+    /**
+     * Parse annotations from the given delimited text. Lines starting with `#` and lines without a numeric onset are
+     * ignored.
+     * @param text - Contents of the annotation file.
+     * @returns The parsed annotations.
+     */
+    parse (text: string) {
+        const rows = text.split(/\r?\n/).filter(row => row.trim() && !row.startsWith('#'))
+        if (!rows.length) {
+            return []
+        }
+        const delimiter = this._options.delimiter || detectDelimiter(rows[0])
+        const header = splitDelimitedRow(rows[0], delimiter).map(name => name.toLowerCase())
+        const onsetColumn = this._options.columns?.onset
+        // The file has a header row if the first row does not start with a numeric onset.
+        const hasHeader = isNaN(parseFloat(header[typeof onsetColumn === 'number' ? onsetColumn : 0]))
+        const getColumn = (property: keyof typeof DEFAULT_COLUMNS, position: number) => {
+            const column = this._options.columns?.[property]
+            if (typeof column === 'number') {
+                return column
+            }
+            if (!hasHeader) {
+                return column === undefined ? position : -1
+            }
+            const names = column !== undefined ? [column.toLowerCase()] : DEFAULT_COLUMNS[property]
+            for (const name of names) {
+                if (header.includes(name)) {
+                    return header.indexOf(name)
+                }
+            }
+            return -1
+        }
+        const columns = {
+            channels: getColumn('channels', -1),
+            duration: getColumn('duration', 1),
+            label: getColumn('label', 2),
+            onset: getColumn('onset', 0),
+        }
+        if (columns.onset === -1) {
+            Log.error(`Cannot parse annotations, the file does not have an onset column.`, SCOPE)
+            return []
+        }
+        const annotations = [] as AnnotationTemplate[]
+        for (let i=(hasHeader ? 1 : 0); i<rows.length; i++) {
+            const fields = splitDelimitedRow(rows[i], delimiter)
+            const onset = parseFloat(fields[columns.onset])
+            if (isNaN(onset)) {
+                Log.warn(`Row ${i + 1} of the annotation file does not have a valid onset.`, SCOPE)
+                continue
+            }
+            const duration = parseFloat(fields[columns.duration])
+            // Without a header row, any extra columns are considered a part of the label.
+            const label = hasHeader || this._options.columns?.label !== undefined
+                          ? fields[columns.label] || ''
+                          : fields.slice(columns.label).join(delimiter)
+            const channels = columns.channels !== -1 && fields[columns.channels] && fields[columns.channels] !== 'n/a'
+                             ? fields[columns.channels].split(/[,\s]+/).filter(c => c)
+                             : []
+            annotations.push({
+                annotator: null,
+                background: false,
+                channels: channels,
+                class: 'event',
+                duration: isNaN(duration) ? 0 : duration,
+                label: label === 'n/a' ? '' : label,
+                priority: 0,
+                start: onset,
+                text: '',
+            } as AnnotationTemplate)
+        }
+        Log.debug(`Parsed ${annotations.length} annotations.`, SCOPE)
+        return annotations
+    }
+}
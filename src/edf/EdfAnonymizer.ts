@@ -0,0 +1,148 @@
+/**
+ * Epicurrents EDF anonymizer.
+ * @package    epicurrents/edf-reader
+ * @copyright  2024 Sampsa Lohi
+ * @license    Apache-2.0
+ */
+
+import { type AnnotationTemplate } from '@epicurrents/core/dist/types'
+import {
+    type EdfAnonymizationReport,
+    type EdfAnonymizerOptions,
+    type EdfHeader,
+} from '#types'
+import EdfDecoder from './EdfDecoder'
+import Log from 'scoped-event-log'
+import { formatEdfPlusDate, replaceStartdate } from '#util'
+
+const SCOPE = 'EdfAnonymizer'
+
+/** Patient identification of an anonymous EDF+ recording. */
+const ANONYMOUS_PATIENT_ID = 'X X X X'
+
+/**
+ * EdfAnonymizer removes identifying information from EDF/EDF+ files:
+ * - The patient identification is replaced with the EDF+ anonymous form `X X X X`.
+ * - The recording identification is replaced with `Startdate dd-MMM-yyyy X X X`, unless it is kept.
+ * - The recording start date can be shifted by a number of days.
+ * - Annotation texts are modified or removed according to the given rules.
+ *
+ * Signal data is written back using the original signal ranges and unchanged header fields are kept as they were.
+ * A report of the changes is available in the `report` property after anonymization.
+ */
+export default class EdfAnonymizer {
+    protected _options: EdfAnonymizerOptions
+    protected _report = null as EdfAnonymizationReport | null
+
+    constructor (options = {} as EdfAnonymizerOptions) {
+        this._options = options
+    }
+
+    /**
+     * Report of the changes made in the latest anonymization, or null if nothing has been anonymized yet.
+     */
+    get report () {
+        return this._report
+    }
+
+    /**
+     * Anonymize the given EDF/EDF+ file.
+     * @param source - The EDF file as an ArrayBuffer.
+     * @returns The anonymized file as an ArrayBuffer or null if an error occurred.
+     */
+    anonymize (source: ArrayBuffer) {
+        const decoder = new EdfDecoder(source)
+        const header = decoder.decodeHeader()
+        if (!header) {
+            Log.error(`Cannot anonymize file, header could not be decoded.`, SCOPE)
+            return null
+        }
+        const data = decoder.decodeData(header)
+        if (!data) {
+            Log.error(`Cannot anonymize file, signal data could not be decoded.`, SCOPE)
+            return null
+        }
+        const report = { annotations: [], fields: [] } as EdfAnonymizationReport
+        const updated = this.anonymizeHeader(header, report)
+        const annotations = [] as AnnotationTemplate[]
+        for (const anno of data.annotations) {
+            const original = anno.label || anno.text
+            const anonymized = this.anonymizeText(original)
+            if (anonymized !== original) {
+                report.annotations.push({ anonymized: anonymized, original: original, start: anno.start })
+            }
+            if (anonymized !== null) {
+                annotations.push({ ...anno, label: anonymized, text: anno.text ? anonymized : '' })
+            }
+        }
+        const recording = decoder.output
+        recording.updateHeader(updated)
+        const file = recording.toArrayBuffer(annotations)
+        if (!file) {
+            Log.error(`Failed to encode the anonymized file.`, SCOPE)
+            return null
+        }
+        this._report = report
+        Log.debug(
+            `Anonymized ${report.fields.length} header fields and ${report.annotations.length} annotations.`,
+        SCOPE)
+        return file
+    }
+
+    /**
+     * Get the anonymized values of the identifying header fields.
+     * @param header - The original EDF header.
+     * @param report - Report to add the changed fields to (optional).
+     * @returns Header properties to update.
+     */
+    anonymizeHeader (header: EdfHeader, report?: EdfAnonymizationReport) {
+        const updated = {} as Partial<EdfHeader>
+        const updateField = (field: 'localRecordingId' | 'patientId', value: string) => {
+            if (header[field] !== value) {
+                updated[field] = value
+                report?.fields.push({ anonymized: value, field: field, original: header[field] })
+            }
+        }
+        updateField('patientId', ANONYMOUS_PATIENT_ID)
+        let recordingDate = header.recordingDate
+        if (recordingDate && this._options.dateShift) {
+            // Shift by calendar days to keep the time of day.
+            recordingDate = new Date(recordingDate)
+            recordingDate.setDate(recordingDate.getDate() + Math.round(this._options.dateShift))
+            if (recordingDate.getFullYear() < 1985 || recordingDate.getFullYear() > 2084) {
+                Log.warn(`Shifted start date ${recordingDate.toISOString()} is outside of the EDF date range.`, SCOPE)
+            }
+            updated.recordingDate = recordingDate
+            report?.fields.push({
+                anonymized: recordingDate.toISOString(),
+                field: 'recordingDate',
+                original: (header.recordingDate as Date).toISOString(),
+            })
+        }
+        if (!this._options.keepRecordingId) {
+            updateField('localRecordingId', `Startdate ${formatEdfPlusDate(recordingDate)} X X X`)
+        } else if (updated.recordingDate) {
+            // The EDF+ start date subfield would reveal the original date.
+            updateField('localRecordingId', replaceStartdate(header.localRecordingId, recordingDate))
+        }
+        return updated
+    }
+
+    /**
+     * Apply the annotation rules to the given text.
+     * @param text - Annotation text.
+     * @returns The anonymized text or null if the annotation should be removed.
+     */
+    anonymizeText (text: string) {
+        for (const rule of this._options.annotationRules || []) {
+            const pattern = typeof rule.pattern === 'string'
+                            ? new RegExp(rule.pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi')
+                            : rule.pattern
+            if (text.search(pattern) === -1) {
+                continue
+            }
+            return rule.replacement === undefined ? null : text.replace(pattern, rule.replacement)
+        }
+        return this._options.removeUnmatched ? null : text
+    }
+}
@@ -0,0 +1,184 @@
+/**
+ * Epicurrents EDF BIDS sidecar generator.
+ * @package    epicurrents/edf-reader
+ * @copyright  2024 Sampsa Lohi
+ * @license    Apache-2.0
+ */
+
+import { type AnnotationTemplate, type SignalDataGapMap } from '@epicurrents/core/dist/types'
+import { type EdfBidsOptions, type EdfBidsSidecars, type EdfHeader } from '#types'
+import EdfDecoder from './EdfDecoder'
+import Log from 'scoped-event-log'
+import { isAnnotationSignal } from '#util'
+
+const SCOPE = 'EdfBidsGenerator'
+
+/** BIDS channel types of the signal types returned by `EdfDecoder.ExtractSignalType`. */
+const BIDS_CHANNEL_TYPES = {
+    ekg: 'ECG',
+    eeg: 'EEG',
+    emg: 'EMG',
+    eog: 'EOG',
+    ppg: 'PPG',
+    resp: 'RESP',
+    temp: 'TEMP',
+    trig: 'TRIG',
+} as { [type: string]: string }
+/** Label matchers for signal types that are not recognized by `EdfDecoder.ExtractSignalType` by default. */
+const BIDS_TYPE_MATCHERS = new Map([
+    ['resp|airflow|thor|abdo', 'resp'],
+    ['temp', 'temp'],
+    ['pleth|ppg', 'ppg'],
+    ['trig|status|marker', 'trig'],
+])
+/** Electrode names of the 10-20 and 10-10 systems, including the earlobe and mastoid references. */
+const EEG_ELECTRODE = '(fp|af|f|ft|fc|t|c|tp|cp|p|po|o|n|i|a|m)(z|10|[1-9])'
+/** Labels of EEG signals that are not prefixed with "EEG", such as `C3`, `Fp1-F7` or `O2-Ref`. */
+const EEG_LABEL = new RegExp(`^${EEG_ELECTRODE}(\\s*[-:]\\s*(${EEG_ELECTRODE}|ref|avg?|ave))?$`, 'i')
+/** Channel count properties of the `*_eeg.json` file. */
+const BIDS_CHANNEL_COUNTS = {
+    ECG: 'ECGChannelCount',
+    EEG: 'EEGChannelCount',
+    EMG: 'EMGChannelCount',
+    EOG: 'EOGChannelCount',
+    MISC: 'MiscChannelCount',
+    TRIG: 'TriggerChannelCount',
+} as { [type: string]: string }
+
+/**
+ * Format a value for a BIDS TSV file.
+ * @param value - Value to format; empty values are written as `n/a`.
+ * @returns The formatted value.
+ */
+const tsvValue = (value: number | string | null) => {
+    if (value === null || value === '') {
+        return 'n/a'
+    }
+    return typeof value === 'number' ? parseFloat(value.toFixed(6)).toString() : value.replace(/[\t\r\n]+/g, ' ')
+}
+
+/**
+ * EdfBidsGenerator generates the BIDS-EEG sidecar files of an EDF/EDF+ recording:
+ * - `*_eeg.json` with the sampling frequency, power line frequency, channel counts and recording duration.
+ * - `*_channels.tsv` with the name, BIDS type, unit, sampling frequency and filter settings of each signal.
+ * - `*_events.tsv` with the onset, duration and text of each annotation.
+ *
+ * Channel types are determined from the signal labels, recognizing also EEG signals that are only labeled with the
+ * electrode names of the 10-20 or 10-10 system (such as `C3` or `Fp1-F7`), and filter settings are parsed from the
+ * prefiltering field of the signals. The generated sidecars should be reviewed and completed with information that
+ * cannot be found in the EDF file, such as the task description and the EEG reference.
+ */
+export default class EdfBidsGenerator {
+    protected _options: EdfBidsOptions
+
+    constructor (options = {} as EdfBidsOptions) {
+        this._options = options
+    }
+
+    /**
+     * Generate the sidecar files for the given EDF header and annotations.
+     * @param header - EDF header of the recording.
+     * @param annotations - Annotations of the recording (optional).
+     * @param dataGaps - Data gaps of a discontinuous recording (optional).
+     * @returns Contents of the sidecar files.
+     */
+    generate (header: EdfHeader, annotations = [] as AnnotationTemplate[], dataGaps = new Map() as SignalDataGapMap) {
+        const channels = [] as string[][]
+        const counts = new Map<string, number>()
+        const eegRates = [] as number[]
+        const notches = new Set<number>()
+        for (const info of header.signalInfo) {
+            if (isAnnotationSignal(header.dataFormat, info)) {
+                continue
+            }
+            const signalType = EdfDecoder.ExtractSignalType(
+                { ...info, label: info.label.toLowerCase() },
+                new Map(BIDS_TYPE_MATCHERS)
+            )
+            const type = BIDS_CHANNEL_TYPES[signalType] || (EEG_LABEL.test(info.label.trim()) ? 'EEG' : 'MISC')
+            const samplingRate = info.sampleCount/header.dataRecordDuration
+            const filters = EdfDecoder.ParsePrefiltering(info.prefiltering)
+            counts.set(type, (counts.get(type) || 0) + 1)
+            if (type === 'EEG') {
+                eegRates.push(samplingRate)
+            }
+            if (filters.notch) {
+                notches.add(filters.notch)
+            }
+            channels.push([
+                info.label,
+                type,
+                // BIDS uses the micro sign as the micro prefix.
+                info.physicalUnit.replace(/^u(?=(V|A|S|m|s|g)$)/, 'µ'),
+                tsvValue(samplingRate),
+                tsvValue(filters.highpass || null),
+                tsvValue(filters.lowpass || null),
+                tsvValue(filters.notch || null),
+            ])
+        }
+        // The main sampling frequency is the most common sampling rate of the EEG channels.
+        const rates = eegRates.length ? eegRates : channels.map(c => parseFloat(c[3]))
+        let samplingFrequency = 0
+        let rateCount = 0
+        for (const rate of new Set(rates)) {
+            const count = rates.filter(r => r === rate).length
+            if (count > rateCount) {
+                samplingFrequency = rate
+                rateCount = count
+            }
+        }
+        const gapTotal = [...dataGaps.values()].reduce((total, gap) => total + gap, 0)
+        const eeg = {
+            TaskName: this._options.taskName || 'rest',
+            SamplingFrequency: samplingFrequency || 'n/a',
+            PowerLineFrequency: this._options.powerLineFrequency || (notches.size === 1 ? [...notches][0] : 'n/a'),
+            SoftwareFilters: 'n/a',
+            EEGReference: this._options.eegReference || 'n/a',
+            RecordingDuration: header.dataRecordCount*header.dataRecordDuration + gapTotal,
+            RecordingType: header.discontinuous ? 'discontinuous' : 'continuous',
+        } as { [property: string]: number | string }
+        for (const property of Object.values(BIDS_CHANNEL_COUNTS)) {
+            eeg[property] = 0
+        }
+        for (const [type, count] of counts) {
+            // Types without a channel count property of their own are counted as miscellaneous channels.
+            const property = BIDS_CHANNEL_COUNTS[type] || BIDS_CHANNEL_COUNTS.MISC
+            eeg[property] = ((eeg[property] as number) || 0) + count
+        }
+        const events = [...annotations]
+                       .sort((a, b) => a.start - b.start)
+                       .map(anno => [tsvValue(anno.start), tsvValue(anno.duration), tsvValue(anno.label || anno.text)])
+        const toTsv = (columns: string[], rows: string[][]) => {
+            return [columns, ...rows].map(row => `${row.join('\t')}\n`).join('')
+        }
+        return {
+            channels: toTsv(
+                ['name', 'type', 'units', 'sampling_frequency', 'low_cutoff', 'high_cutoff', 'notch'],
+                channels
+            ),
+            eeg: JSON.stringify(eeg, null, 4),
+            events: toTsv(['onset', 'duration', 'trial_type'], events),
+        } as EdfBidsSidecars
+    }
+
+    /**
+     * Generate the sidecar files for the given EDF/EDF+ file.
+     * @param source - The EDF file as an ArrayBuffer.
+     * @returns Contents of the sidecar files or null if an error occurred.
+     */
+    generateFromFile (source: ArrayBuffer) {
+        const decoder = new EdfDecoder(source)
+        const header = decoder.decodeHeader()
+        if (!header) {
+            Log.error(`Cannot generate sidecars, header could not be decoded.`, SCOPE)
+            return null
+        }
+        // Annotations are only stored in the data records of EDF+ files.
+        const data = header.isPlus ? decoder.decodeData(header) : null
+        if (header.isPlus && !data) {
+            Log.error(`Cannot generate sidecars, annotations could not be decoded.`, SCOPE)
+            return null
+        }
+        return this.generate(header, data?.annotations, data?.dataGaps)
+    }
+}
@@ -0,0 +1,399 @@
+/**
+ * Epicurrents EDF converter.
+ * @package    epicurrents/edf-reader
+ * @copyright  2024 Sampsa Lohi
+ * @license    Apache-2.0
+ */
+
+import { type AnnotationTemplate, type SignalDataGapMap } from '@epicurrents/core/dist/types'
+import { type EdfHeader, type EdfRepairOptions } from '#types'
+import EdfAnnotationImporter from './EdfAnnotationImporter'
+import EdfDecoder from './EdfDecoder'
+import EdfEncoder from './EdfEncoder'
+import Log from 'scoped-event-log'
+import { formatEdfPlusDate, isAnnotationSignal, replaceStartdate, toEdfPlusSubfield } from '#util'
+
+const SCOPE = 'EdfConverter'
+
+/** Pattern of an EDF+ patient identification (code, sex, birthdate and name subfields). */
+const PATIENT_ID_PATTERN = /^\S+ [MFX] (\d{2}-[A-Z]{3}-\d{4}|X) \S+/
+/** Pattern of an EDF+ recording identification. */
+const RECORDING_ID_PATTERN = /^Startdate (\d{2}-[A-Z]{3}-\d{4}|X) \S+ \S+ \S+/
+
+/** Signal properties that must match for signals to be concatenated. */
+const LAYOUT_PROPERTIES = [
+    'label', 'sampleCount', 'physicalMinimum', 'physicalMaximum', 'digitalMinimum', 'digitalMaximum', 'physicalUnit',
+] as const
+
+/**
+ * Get the data (non-annotation) signals of the given header.
+ * @param header - EDF header.
+ * @returns Signal info of the data signals.
+ */
+const getDataSignals = (header: EdfHeader) => {
+    return header.signalInfo.filter(info => !isAnnotationSignal(header.dataFormat, info))
+}
+
+/**
+ * EdfConverter converts plain EDF/BDF files into the extended EDF+/BDF+ format:
+ * - An annotation signal (`EDF Annotations` or `BDF Annotations`) is added to the file.
+ * - The patient and recording identifications are restructured into the EDF+ subfield format. Any original free text
+ *   identification is kept as an additional subfield.
+ * - The reserved field is marked as a continuous recording (`EDF+C` or `BDF+C`).
+ * - Annotations can be injected into the new annotation signal, either as annotation templates or as the contents of
+ *   a side file (see `ParseAnnotations`).
+ *
+ * Several files of the same recording session can also be concatenated into a single discontinuous EDF+D/BDF+D
+ * file with `concatenate(sources)`. The files are ordered by their start dates and the time between the files is
+ * stored as data gaps. Inversely, a discontinuous file can be split into continuous segments with
+ * `split(source, minGap)`.
+ *
+ * Broken or truncated files can be rewritten with a corrected header with `repair(source, options)`.
+ *
+ * Signal data is written back using the original signal ranges, so the digital samples are not changed.
+ */
+export default class EdfConverter {
+    /**
+     * Parse annotations from the contents of a CSV or TSV side file. Each line contains the onset of the annotation
+     * in seconds from the start of the recording, its duration in seconds (empty or `n/a` for none) and the
+     * annotation text, e.g. `12.5,0,Eyes closed`. Files with a header row, such as BIDS `events.tsv` files, are also
+     * supported (see `EdfAnnotationImporter`).
+     * @param text - Contents of the side file.
+     * @returns The parsed annotations.
+     */
+    static ParseAnnotations (text: string) {
+        return new EdfAnnotationImporter().parse(text)
+    }
+
+    /**
+     * Concatenate the given EDF/BDF files into a single EDF+D/BDF+D file. The files are ordered by their recording
+     * start dates and the time between the end of a file and the start of the next is stored as a data gap. The
+     * annotations of all files are merged with onsets relative to the start of the first file.
+     *
+     * All files must use the same format, data record duration and signal layout (labels, sampling rates, units and
+     * ranges of the data signals). The patient and recording identification of the earliest file are used.
+     * @param sources - The EDF/BDF files as ArrayBuffers.
+     * @returns The concatenated file as an ArrayBuffer or null if an error occurred.
+     */
+    concatenate (sources: ArrayBuffer[]) {
+        if (!sources.length) {
+            Log.error(`Cannot concatenate files, no files were given.`, SCOPE)
+            return null
+        }
+        const files = [] as { decoder: EdfDecoder, header: EdfHeader, index: number }[]
+        for (let i=0; i<sources.length; i++) {
+            const decoder = new EdfDecoder(sources[i])
+            const header = decoder.decodeHeader()
+            if (!header) {
+                Log.error(`Cannot concatenate files, header of file #${i} could not be decoded.`, SCOPE)
+                return null
+            }
+            if (!header.recordingDate) {
+                Log.error(`Cannot concatenate files, file #${i} does not have a valid start date.`, SCOPE)
+                return null
+            }
+            files.push({ decoder: decoder, header: header, index: i })
+        }
+        files.sort((a, b) => (a.header.recordingDate as Date).getTime() - (b.header.recordingDate as Date).getTime())
+        const first = files[0].header
+        const layout = getDataSignals(first)
+        // Validate that all files share the same signal layout.
+        for (const { header, index } of files.slice(1)) {
+            const prefix = `Cannot concatenate files, file #${index} does not match the layout of file #${files[0].index}`
+            if (header.dataFormat.replace('+', '') !== first.dataFormat.replace('+', '')) {
+                Log.error(`${prefix}: data format ${header.dataFormat} differs from ${first.dataFormat}.`, SCOPE)
+                return null
+            }
+            if (header.dataRecordDuration !== first.dataRecordDuration) {
+                Log.error(
+                    `${prefix}: data record duration ${header.dataRecordDuration} differs from ` +
+                    `${first.dataRecordDuration}.`,
+                SCOPE)
+                return null
+            }
+            const signals = getDataSignals(header)
+            if (signals.length !== layout.length) {
+                Log.error(`${prefix}: ${signals.length} data signals instead of ${layout.length}.`, SCOPE)
+                return null
+            }
+            for (let i=0; i<layout.length; i++) {
+                const property = LAYOUT_PROPERTIES.find(prop => signals[i][prop] !== layout[i][prop])
+                if (property) {
+                    Log.error(
+                        `${prefix}: ${property} of signal #${i} is '${signals[i][property]}' ` +
+                        `instead of '${layout[i][property]}'.`,
+                    SCOPE)
+                    return null
+                }
+            }
+        }
+        const startTime = (first.recordingDate as Date).getTime()
+        const annotations = [] as AnnotationTemplate[]
+        const dataGaps = new Map() as SignalDataGapMap
+        const parts = layout.map(() => [] as Float32Array[])
+        // End of the previous file in recording time and data time.
+        let prevEnd = 0
+        let dataTime = 0
+        for (const { decoder, header, index } of files) {
+            const data = decoder.decodeData(header)
+            if (!data) {
+                Log.error(`Cannot concatenate files, signal data of file #${index} could not be decoded.`, SCOPE)
+                return null
+            }
+            let fileStart = ((header.recordingDate as Date).getTime() - startTime)/1000
+            if (fileStart < prevEnd) {
+                // Start dates only have a resolution of one second.
+                if (prevEnd - fileStart >= 1) {
+                    Log.error(`Cannot concatenate files, file #${index} overlaps with the preceding file.`, SCOPE)
+                    return null
+                }
+                Log.warn(`Start of file #${index} was moved to the end of the preceding file.`, SCOPE)
+                fileStart = prevEnd
+            }
+            const addGap = (pos: number, gap: number) => {
+                dataGaps.set(pos, (dataGaps.get(pos) || 0) + gap)
+            }
+            if (fileStart > prevEnd) {
+                addGap(dataTime, fileStart - prevEnd)
+            }
+            let fileGaps = 0
+            for (const [pos, gap] of data.dataGaps) {
+                addGap(dataTime + pos, gap)
+                fileGaps += gap
+            }
+            for (const anno of data.annotations) {
+                annotations.push({ ...anno, start: anno.start + fileStart })
+            }
+            let nextPart = 0
+            for (let i=0; i<header.signalInfo.length; i++) {
+                if (!isAnnotationSignal(header.dataFormat, header.signalInfo[i])) {
+                    parts[nextPart++].push(Float32Array.from(data.signals[i]))
+                }
+            }
+            const fileLength = header.dataRecordCount*header.dataRecordDuration
+            prevEnd = fileStart + fileLength + fileGaps
+            dataTime += fileLength
+        }
+        const signalData = parts.map(signalParts => {
+            const signal = new Float32Array(signalParts.reduce((total, part) => total + part.length, 0))
+            let offset = 0
+            for (const part of signalParts) {
+                signal.set(part, offset)
+                offset += part.length
+            }
+            return signal
+        })
+        const encoder = new EdfEncoder('generic')
+        encoder.setHeader(Object.assign({}, first, first.isPlus ? {} : this.convertHeader(first), {
+            dataFormat: first.dataFormat.replace('+', '') + '+',
+            dataRecordCount: 0,
+            discontinuous: true,
+            isPlus: true,
+            signalInfo: layout,
+        }) as EdfHeader)
+        encoder.setSignalData(signalData)
+        encoder.setAnnotations(annotations)
+        encoder.setDataGaps(dataGaps)
+        const file = encoder.encode()
+        if (!file) {
+            Log.error(`Failed to encode the concatenated file.`, SCOPE)
+            return null
+        }
+        Log.debug(`Concatenated ${files.length} files with ${dataGaps.size} data gaps.`, SCOPE)
+        return file
+    }
+
+    /**
+     * Get the header properties to update when converting the given plain EDF/BDF header into EDF+/BDF+.
+     * @param header - The original EDF header.
+     * @returns Header properties to update.
+     */
+    convertHeader (header: EdfHeader) {
+        const patientId = PATIENT_ID_PATTERN.test(header.patientId)
+                          ? header.patientId
+                          : `X X X ${toEdfPlusSubfield(header.patientId)}`
+        let recordingId = `Startdate ${formatEdfPlusDate(header.recordingDate)} X X X`
+        if (RECORDING_ID_PATTERN.test(header.localRecordingId)) {
+            recordingId = header.localRecordingId
+        } else if (header.localRecordingId.trim()) {
+            recordingId += ` ${toEdfPlusSubfield(header.localRecordingId)}`
+        }
+        return {
+            dataFormat: `${header.dataFormat}+`,
+            discontinuous: false,
+            isPlus: true,
+            localRecordingId: recordingId.substring(0, 80),
+            patientId: patientId.substring(0, 80),
+            reserved: '',
+        } as Partial<EdfHeader>
+    }
+
+    /**
+     * Convert the given plain EDF/BDF file into EDF+C/BDF+C.
+     * @param source - The EDF/BDF file as an ArrayBuffer.
+     * @param annotations - Annotations to write into the file, either as templates or as the contents of a CSV/TSV
+     *                      side file (optional).
+     * @returns The converted file as an ArrayBuffer or null if an error occurred.
+     */
+    convertToPlus (source: ArrayBuffer, annotations?: AnnotationTemplate[] | string) {
+        const decoder = new EdfDecoder(source)
+        const header = decoder.decodeHeader()
+        if (!header) {
+            Log.error(`Cannot convert file, header could not be decoded.`, SCOPE)
+            return null
+        }
+        if (header.isPlus) {
+            Log.error(`Cannot convert file, it is already in the ${header.dataFormat.toUpperCase()} format.`, SCOPE)
+            return null
+        }
+        const data = decoder.decodeData(header)
+        if (!data) {
+            Log.error(`Cannot convert file, signal data could not be decoded.`, SCOPE)
+            return null
+        }
+        const recordingLength = header.dataRecordCount*header.dataRecordDuration
+        const injected = (
+            typeof annotations === 'string' ? EdfConverter.ParseAnnotations(annotations) : annotations || []
+        ).filter(anno => {
+            if (anno.start < 0 || anno.start >= recordingLength) {
+                Log.warn(`Annotation '${anno.label}' at ${anno.start} is outside of the recording.`, SCOPE)
+                return false
+            }
+            return true
+        })
+        const updated = this.convertHeader(header)
+        const recording = decoder.output
+        recording.updateHeader(updated)
+        const file = recording.toArrayBuffer(injected)
+        if (!file) {
+            Log.error(`Failed to encode the converted file.`, SCOPE)
+            return null
+        }
+        Log.debug(`Converted file into ${updated.dataFormat?.toUpperCase()} with ${injected.length} annotations.`, SCOPE)
+        return file
+    }
+
+    /**
+     * Rewrite a broken or truncated file with a corrected header. The number of data records and the header record
+     * size are recomputed from the file size and the signal layout (see `EdfDecoder.repairHeader`) and the data
+     * records are copied without conversion.
+     * @param source - The EDF/BDF file as an ArrayBuffer.
+     * @param options - Repair options (optional).
+     * @returns The repaired file as an ArrayBuffer or null if an error occurred.
+     */
+    repair (source: ArrayBuffer, options?: EdfRepairOptions) {
+        const decoder = new EdfDecoder(source)
+        if (!decoder.decodeHeader()) {
+            Log.error(`Cannot repair file, header could not be decoded.`, SCOPE)
+            return null
+        }
+        const header = decoder.repairHeader({ ...options, fileSize: source.byteLength })
+        if (!header) {
+            return null
+        }
+        // Decode the raw signals to write the data records as they are.
+        if (!decoder.decodeData(header, undefined, -1, 0, undefined, 0, true)) {
+            Log.error(`Cannot repair file, signal data could not be decoded.`, SCOPE)
+            return null
+        }
+        const file = decoder.output.toArrayBuffer()
+        if (!file) {
+            Log.error(`Failed to encode the repaired file.`, SCOPE)
+            return null
+        }
+        Log.debug(`Repaired file with ${header.repairs?.length || 0} fixes.`, SCOPE)
+        return file
+    }
+
+    /**
+     * Split the given EDF+D/BDF+D file into continuous segments at its data gaps. Each segment is encoded as a
+     * separate EDF+C/BDF+C file with the recording start date moved to the start of the segment (the start date has
+     * a resolution of one second) and the annotations within the segment carried over with onsets relative to the
+     * new start. Annotations within the gaps between segments are not included in any segment.
+     * @param source - The EDF+/BDF+ file as an ArrayBuffer.
+     * @param minGap - Only split at gaps longer than this many seconds (default 0); shorter gaps are kept as data gaps
+     *                 in the segment, making it discontinuous.
+     * @returns The segments as ArrayBuffers or null if an error occurred.
+     */
+    split (source: ArrayBuffer, minGap = 0) {
+        const decoder = new EdfDecoder(source)
+        const header = decoder.decodeHeader()
+        if (!header) {
+            Log.error(`Cannot split file, header could not be decoded.`, SCOPE)
+            return null
+        }
+        if (!header.isPlus) {
+            Log.error(`Cannot split file, only ${header.dataFormat.toUpperCase()}+ files can contain data gaps.`, SCOPE)
+            return null
+        }
+        const data = decoder.decodeData(header)
+        if (!data) {
+            Log.error(`Cannot split file, signal data could not be decoded.`, SCOPE)
+            return null
+        }
+        const dataLength = header.dataRecordCount*header.dataRecordDuration
+        const gaps = [...data.dataGaps].sort((a, b) => a[0] - b[0])
+        // Segment boundaries as [data start, data end] in seconds.
+        const segments = [] as number[][]
+        let segmentStart = 0
+        for (const [pos, gap] of gaps) {
+            if (gap > minGap && pos > segmentStart && pos < dataLength) {
+                segments.push([segmentStart, pos])
+                segmentStart = pos
+            }
+        }
+        segments.push([segmentStart, dataLength])
+        const files = [] as ArrayBuffer[]
+        let annotationCount = 0
+        for (const [dataStart, dataEnd] of segments) {
+            // Convert the data time into recording time by adding the preceding gaps.
+            let start = dataStart
+            let end = dataEnd
+            const dataGaps = new Map() as SignalDataGapMap
+            for (const [pos, gap] of gaps) {
+                if (pos <= dataStart) {
+                    start += gap
+                    end += gap
+                } else if (pos < dataEnd) {
+                    dataGaps.set(pos - dataStart, gap)
+                    end += gap
+                }
+            }
+            const annotations = data.annotations
+                                .filter(a => a.start >= start && a.start < end)
+                                .map(a => ({ ...a, start: a.start - start }))
+            annotationCount += annotations.length
+            const recordingDate = header.recordingDate
+                                  ? new Date(header.recordingDate.getTime() + start*1000)
+                                  : null
+            const signalData = header.signalInfo.map((info, i) => {
+                const samplingRate = info.sampleCount/header.dataRecordDuration
+                const sampleStart = Math.round(dataStart*samplingRate)
+                const signal = new Float32Array(Math.round(dataEnd*samplingRate) - sampleStart)
+                signal.set(data.signals[i].slice(sampleStart, sampleStart + signal.length))
+                return signal
+            })
+            const encoder = new EdfEncoder('generic')
+            encoder.setHeader(Object.assign({}, header, {
+                dataRecordCount: 0,
+                discontinuous: false,
+                localRecordingId: replaceStartdate(header.localRecordingId, recordingDate),
+                recordingDate: recordingDate,
+            }) as EdfHeader)
+            encoder.setSignalData(signalData)
+            encoder.setAnnotations(annotations)
+            encoder.setDataGaps(dataGaps)
+            const file = encoder.encode()
+            if (!file) {
+                Log.error(`Failed to encode the segment starting at ${start} seconds.`, SCOPE)
+                return null
+            }
+            files.push(file)
+        }
+        if (annotationCount < data.annotations.length) {
+            Log.warn(`${data.annotations.length - annotationCount} annotations within data gaps were left out.`, SCOPE)
+        }
+        Log.debug(`Split file into ${files.length} segments.`, SCOPE)
+        return files
+    }
+}
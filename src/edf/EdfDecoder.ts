@@ -24,9 +24,10 @@ import {
     type FileDecoder,
     type SignalDataGapMap,
 } from '@epicurrents/core/dist/types'
-import { type EdfHeader, type EdfSignalInfo } from '#types'
+import { type EdfHeader, type EdfHeaderRepair, type EdfRepairOptions, type EdfSignalInfo } from '#types'
 import { unpackArray, unpackString } from 'byte-data'
 import Log from 'scoped-event-log'
+import { parsePatientId, parseRecordingId, writePaddedTimekeeping } from '#util'
 
 const SCOPE = 'EdfDecoder'
 /**
@@ -116,8 +117,17 @@ export default class EdfDecoder implements FileDecoder {
         const filterHp = prefiltering.match(/HP:([0-9\\.]+)Hz/i)
         const filterLp = prefiltering.match(/LP:([0-9\\.]+)Hz/i)
         const filterNotch = prefiltering.match(/N:([0-9\\.]+)Hz/i)
+        // Additional band filters are written as a range (e.g. "BS:48-52Hz").
+        const parseBands = (type: string) => {
+            const bands = [] as number[][]
+            for (const band of prefiltering.matchAll(new RegExp(`${type}:([0-9.]+)-([0-9.]+)Hz`, 'gi'))) {
+                bands.push([parseFloat(band[1]), parseFloat(band[2])])
+            }
+            return bands
+        }
         return {
-            bandreject: [],
+            bandpass: parseBands('BP'),
+            bandreject: parseBands('BS'),
             highpass: filterHp ? parseFloat(filterHp[1]) : 0,
             lowpass: filterLp ? parseFloat(filterLp[1]) : 0,
             notch: filterNotch ? parseFloat(filterNotch[1]) : 0,
@@ -371,12 +381,19 @@ export default class EdfDecoder implements FileDecoder {
                     // Save possible discontinuity in signal data as data gap.
                     // Avoid floating point precision errors.
                     const equalToPrecision = floatsAreEqual(parsed.recordStart, expectedRecordStart, 16)
-                    if (useHeaders.discontinuous && parsed.recordStart > expectedRecordStart && !equalToPrecision) {
+                    // Only the first annotation signal contains the data record start time.
+                    const isRecordStart = i === annotationSignals[0]
+                    if (
+                        isRecordStart && useHeaders.discontinuous &&
+                        parsed.recordStart > expectedRecordStart && !equalToPrecision
+                    ) {
                         // We must use data time instead of recording time as gap start position because the data record
                         // timestamp cannot always be trusted.
                         dataGaps.set(dataPos, parsed.recordStart - expectedRecordStart)
                         priorOffset += parsed.recordStart - expectedRecordStart
-                    } else if (parsed.recordStart < expectedRecordStart + startCorrection && !equalToPrecision) {
+                    } else if (
+                        isRecordStart && parsed.recordStart < expectedRecordStart + startCorrection && !equalToPrecision
+                    ) {
                         Log.warn(
                             `${format} file has overlapping record starts, file data may be corrupted ` +
                             `(expected start time ${expectedRecordStart} in data record ${r + startRecord}, ` +
@@ -386,12 +403,9 @@ export default class EdfDecoder implements FileDecoder {
                         startCorrection = parsed.recordStart - expectedRecordStart
                     }
                     // Store possible text annotations.
-                    if (parsed.fields.length) {
-                        if (recAnnotations) {
-                            recAnnotations.fields.push(...parsed.fields)
-                        } else {
-                            recAnnotations = parsed
-                        }
+                    // Fields from subsequent annotation signals are added directly to the existing record annotations.
+                    if (parsed.fields.length && !recAnnotations) {
+                        recAnnotations = parsed
                     }
                     isAnnotation = true
                 }
@@ -439,7 +453,8 @@ export default class EdfDecoder implements FileDecoder {
                 returnRaw ? [] : physicalSignals,
                 annotations,
                 dataGaps,
-                this._dataFormat
+                this._dataFormat,
+                this._output?.headerRecord
             )
         } else {
             // Add possible parsed annotations and data gaps.
@@ -539,6 +554,8 @@ export default class EdfDecoder implements FileDecoder {
             Log.error(`Failed to parse local recording ID ${format} header field!`, SCOPE, e as Error)
         }
         offset += 80
+        // Year of the startdate field, compared to the four-digit year of an EDF+ recording identification.
+        let shortYear = ''
         try {
             // 8 ASCII : startdate of recording (dd.mm.yy).
             const recStartDate = unpackString(byteArray, offset, offset + 8)?.trim()
@@ -559,8 +576,13 @@ export default class EdfDecoder implements FileDecoder {
             }
             offset += 8
             const date = recStartDate.split(".")
-            // 1985 breakpoint.
-            if (parseInt(date[2]) >= 85) {
+            shortYear = date[2]
+            if (shortYear.toLowerCase() === 'yy') {
+                // EDF+ uses 'yy' as the year after 2084, the actual year is in the recording identification.
+                // Use the first such year until the recording identification is parsed.
+                date[2] = '2085'
+            } else if (parseInt(date[2]) >= 85) {
+                // 1985 breakpoint.
                 date[2] = `19${date[2]}`
             } else {
                 date[2] = `20${date[2]}`
@@ -613,6 +635,38 @@ export default class EdfDecoder implements FileDecoder {
                 } else {
                     Log.debug(`File is using ${format} specification, continuous record.`, SCOPE)
                 }
+                header.patient = parsePatientId(header.patientId)
+                header.recordingInfo = parseRecordingId(header.localRecordingId)
+                const startDate = header.recordingInfo?.startDate
+                if (startDate && header.recordingDate) {
+                    const date = header.recordingDate
+                    // EDF+ files use 'yy' as the year after 2084, so only compare numeric years.
+                    if (
+                        date.getDate() !== startDate.getDate() || date.getMonth() !== startDate.getMonth() ||
+                        (/^\d+$/.test(shortYear) && parseInt(shortYear) !== startDate.getFullYear()%100)
+                    ) {
+                        Log.warn(
+                            `Start date ${startDate.toDateString()} in the recording identification does not match ` +
+                            `the startdate field ${date.toDateString()}.`,
+                        SCOPE)
+                    }
+                    // The four-digit year of the recording identification takes precedence.
+                    header.recordingDate = new Date(
+                        startDate.getFullYear(),
+                        startDate.getMonth(),
+                        startDate.getDate(),
+                        date.getHours(),
+                        date.getMinutes(),
+                        date.getSeconds(),
+                        0
+                    )
+                }
+            }
+            if (shortYear.toLowerCase() === 'yy' && !header.recordingInfo?.startDate) {
+                Log.warn(
+                    `The year of the startdate field is 'yy' but the recording identification has no start date, ` +
+                    `the year of the recording is not known.`,
+                SCOPE)
             }
         } catch (e: unknown) {
             Log.error(`Failed to parse reserved ${format} header field!`, SCOPE, e as Error)
@@ -620,7 +674,7 @@ export default class EdfDecoder implements FileDecoder {
         offset += 44
         try {
             // 8 ASCII : number of data records.
-            // Note: Number of records can be -1 during recording, but currently only offline analysis is supported.
+            // Note: Number of records is -1 during recording, it is counted from the file size after the signal info.
             const dataRecCount = unpackString(byteArray, offset, offset + 8)?.trim()
             if (dataRecCount === undefined) {
                 throw Error(`Error when extracting data record count string from buffer.`)
@@ -629,10 +683,15 @@ export default class EdfDecoder implements FileDecoder {
                 throw Error(`Data record count is empty.`)
             }
             header.dataRecordCount = parseInt(dataRecCount)
-            if (!header.dataRecordCount) {
+            if (header.dataRecordCount === -1) {
+                header.dataRecordCount = 0
+                header.live = true
+                Log.debug(`Number of data records is unknown, file is still being recorded.`, SCOPE)
+            } else if (!header.dataRecordCount) {
                 throw Error(`Data record count is zero.`)
+            } else {
+                Log.debug(`${header.dataRecordCount} data records in file.`, SCOPE)
             }
-            Log.debug(`${header.dataRecordCount} data records in file.`, SCOPE)
         } catch (e: unknown) {
             Log.error(`Failed to parse number of data records ${format} header field!`, SCOPE, e as Error)
             return null
@@ -768,8 +827,106 @@ export default class EdfDecoder implements FileDecoder {
                 `Calculated data offset ${offset} does not match header record size ${header.headerRecordBytes}.`,
             SCOPE)
         }
+        if (header.live && header.recordByteSize && this._inputBuffer.byteLength > header.headerRecordBytes) {
+            // Count the complete data records that have been written so far.
+            header.dataRecordCount = Math.floor(
+                (this._inputBuffer.byteLength - header.headerRecordBytes)/header.recordByteSize
+            )
+            Log.debug(`${header.dataRecordCount} data records written in file so far.`, SCOPE)
+        }
         // Generate an "empty" output object from the header information.
-        this._output = new EdfRecording(header, undefined, undefined, undefined, undefined, this._dataFormat)
+        // Keep the original header record to be able to write unchanged fields back as they were.
+        this._output = new EdfRecording(
+            header, undefined, undefined, undefined, undefined, this._dataFormat,
+            this._inputBuffer.slice(0, offset)
+        )
+        return header
+    }
+
+    /**
+    * Repair the decoded header of a broken or truncated file. The header record size and the number of data records
+    * are recomputed from the signal layout and the actual file size, and a partial last data record is either dropped
+    * or padded with zeroes. Every fix is recorded in the `repairs` property of the header.
+    *
+    * Padding the input buffer requires it to contain the whole file; if only the header is available, the data
+    * reader is expected to pad the partial record when it is read.
+    * @param options - Repair options (optional).
+    * @returns The repaired header or null if the header cannot be repaired.
+    */
+    repairHeader (options = {} as EdfRepairOptions) {
+        const header = this._output?.header
+        if (!header || !this._inputBuffer) {
+            Log.error(`Cannot repair EDF/BDF header: header has not been decoded yet!`, SCOPE)
+            return null
+        }
+        const fileSize = options.fileSize ?? this._inputBuffer.byteLength
+        const headerBytes = 256*(header.signalCount + 1)
+        if (header.signalInfo.length !== header.signalCount || fileSize < headerBytes) {
+            Log.error(`Cannot repair EDF/BDF header: the file does not contain the whole header.`, SCOPE)
+            return null
+        }
+        if (!header.recordByteSize) {
+            Log.error(`Cannot repair EDF/BDF header: data records do not contain any samples.`, SCOPE)
+            return null
+        }
+        const repairs = [] as EdfHeaderRepair[]
+        if (header.headerRecordBytes !== headerBytes) {
+            repairs.push({
+                field: 'headerRecordBytes',
+                message: `Header record size was corrected to match the ${header.signalCount} signals.`,
+                original: header.headerRecordBytes,
+                repaired: headerBytes,
+            })
+            header.headerRecordBytes = headerBytes
+        }
+        const partialBytes = (fileSize - headerBytes)%header.recordByteSize
+        let recordCount = Math.floor((fileSize - headerBytes)/header.recordByteSize)
+        if (partialBytes) {
+            const pad = options.partialRecord === 'pad'
+            if (pad) {
+                recordCount++
+                if (this._inputBuffer.byteLength >= fileSize) {
+                    const padded = new Uint8Array(headerBytes + recordCount*header.recordByteSize)
+                    padded.set(new Uint8Array(this._inputBuffer, 0, fileSize))
+                    const recordStart = headerBytes + (recordCount - 1)*header.recordByteSize
+                    writePaddedTimekeeping(
+                        padded.subarray(recordStart, recordStart + header.recordByteSize),
+                        header,
+                        partialBytes,
+                        (recordCount - 1)*header.dataRecordDuration,
+                        recordCount > 1 ? padded.subarray(recordStart - header.recordByteSize, recordStart) : undefined
+                    )
+                    this._inputBuffer = padded.buffer
+                }
+            }
+            repairs.push({
+                field: 'partialRecord',
+                message: pad ? `Partial last data record was padded with zeroes.`
+                             : `Partial last data record was dropped.`,
+                original: partialBytes,
+                repaired: pad ? header.recordByteSize : 0,
+            })
+        }
+        // The record count of a file that is still being recorded is -1 in the header record, even though the
+        // records counted so far have already been set as the decoded count.
+        if (header.live || header.dataRecordCount !== recordCount) {
+            repairs.push({
+                field: 'dataRecordCount',
+                message: header.live ? `Unknown number of data records was counted from the file size.`
+                                     : `Number of data records was corrected to match the file size.`,
+                original: header.live ? -1 : header.dataRecordCount,
+                repaired: recordCount,
+            })
+            header.dataRecordCount = recordCount
+        }
+        for (const repair of repairs) {
+            Log.warn(`${repair.message} (${repair.original} -> ${repair.repaired})`, SCOPE)
+        }
+        header.repairs = repairs
+        // Refresh the output with the repaired header.
+        this._output = new EdfRecording(
+            header, undefined, undefined, undefined, undefined, this._dataFormat, this._output?.headerRecord
+        )
         return header
     }
 
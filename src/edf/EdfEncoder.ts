@@ -5,27 +5,720 @@
  * @license    Apache-2.0
  */
 
+import { safeObjectFrom } from '@epicurrents/core/dist/util'
 import {
+    type AnnotationTemplate,
+    type BiosignalFilters,
+    type SignalDataGapMap,
+} from '@epicurrents/core/dist/types'
+import {
+    type EdfEncodingReport,
     type EdfHeader,
+    type EdfRecordingProfile,
     type EdfRecordingType,
+    type EdfSignalInfo,
+    type EdfSignalProperties,
+    type EdfSignalTypeDefaults,
+    type EdfStreamOptions,
     type FileFormatEncoder,
+    type NodeWritable,
 } from '#types'
+import { packArrayTo, packStringTo, unpackString } from 'byte-data'
+import EdfDecoder from './EdfDecoder'
 import { Log } from 'scoped-event-log'
+import { formatPatientId, formatRecordingId, getStreamWriter } from '#util'
 
 const SCOPE = 'EdfEncoder'
 
+/** Digital range of a 24-bit BDF sample. */
+const BDF_DIGITAL_RANGE = [-8388608, 8388607]
+/** Default headroom added to both ends of a physical range calculated from signal data, as a fraction of the range. */
+const DEFAULT_RANGE_HEADROOM = 0.1
+/** Digital range of a 16-bit EDF sample. */
+const EDF_DIGITAL_RANGE = [-32768, 32767]
+/** Byte position of the number of data records field in the header record. */
+const RECORD_COUNT_POSITION = 236
+/**
+ * Default properties of each recording type. Data record durations are chosen to keep the data records under the
+ * recommended maximum size of 61440 bytes with typical sampling rates and channel counts.
+ */
+const RECORDING_PROFILES: Record<EdfRecordingType, EdfRecordingProfile> = {
+    // Holter recordings are long with few channels and low sampling rates.
+    ecg: { dataRecordDuration: 10, defaultSignalType: 'ecg', prefixLabels: true },
+    eeg: { dataRecordDuration: 1, defaultSignalType: 'eeg', prefixLabels: true },
+    // EMG is sampled at up to tens of kilohertz.
+    emg: { dataRecordDuration: 0.1, defaultSignalType: 'emg', prefixLabels: true },
+    generic: { dataRecordDuration: 1, defaultSignalType: '', prefixLabels: false },
+    psg: { dataRecordDuration: 1, defaultSignalType: 'eeg', prefixLabels: true },
+}
+/** Default properties of signal types, using the EDF+ standard texts. */
+const SIGNAL_TYPE_DEFAULTS: Record<string, EdfSignalTypeDefaults> = {
+    ecg: { labelPrefix: 'ECG', physicalUnit: 'mV', transducerType: 'AgAgCl electrode' },
+    eeg: { labelPrefix: 'EEG', physicalUnit: 'uV', transducerType: 'AgAgCl electrode' },
+    emg: { labelPrefix: 'EMG', physicalUnit: 'uV', transducerType: 'AgAgCl electrode' },
+    eog: { labelPrefix: 'EOG', physicalUnit: 'uV', transducerType: 'AgAgCl electrode' },
+    resp: { labelPrefix: 'Resp', physicalUnit: 'uV', transducerType: 'Thermistor' },
+    sao2: { labelPrefix: 'SaO2', physicalUnit: '%', transducerType: 'Pulse oximeter' },
+    temp: { labelPrefix: 'Temp', physicalUnit: 'degC', transducerType: 'Thermistor' },
+}
+/** Label matchers for signal types not recognized by EdfDecoder.ExtractSignalType. */
+const SIGNAL_TYPE_MATCHERS = [
+    ['resp|flow|thor|abd', 'resp'],
+    ['sao2|spo2', 'sao2'],
+    ['temp', 'temp'],
+]
+/** Default number of bytes reserved for annotations in each data record when streaming. */
+const STREAM_ANNOTATION_BYTES = 120
+
+/**
+ * Format-specific properties of the file being encoded.
+ */
+type EncodingFormat = {
+    /** Label of the annotation signal (`EDF Annotations` or `BDF Annotations`). */
+    annotationLabel: string
+    /** Number of bytes in a single sample. */
+    bytesPerSample: number
+    /** Allowed digital range of a sample as [min, max]. */
+    digitalRange: number[]
+    /** Is the file encoded in 24-bit BDF instead of 16-bit EDF. */
+    isBdf: boolean
+    /** Is the file using the extended specification (EDF+/BDF+). */
+    isPlus: boolean
+}
+
+/**
+ * Convert the given value into a fixed-width, left-aligned ASCII header field padded with spaces.
+ * Characters outside of printable US-ASCII are replaced with underscores.
+ * @param value - Value to convert.
+ * @param length - Length of the field in bytes.
+ * @returns The field as a string.
+ */
+const asciiField = (value: string, length: number) => {
+    const ascii = value.replace(/[^\x20-\x7E]/g, '_')
+    if (ascii.length > length) {
+        Log.warn(`Value '${ascii}' exceeds header field length ${length} and was truncated.`, SCOPE)
+        return ascii.substring(0, length)
+    }
+    return ascii.padEnd(length, ' ')
+}
+
+/**
+ * State of an ongoing streamed encoding.
+ */
+type EncodingStream = {
+    /** Queued TALs waiting to be written into the annotation signal. */
+    annotationQueue: AnnotationTemplate[]
+    /** Samples of each data signal that do not yet fill a complete data record. */
+    buffered: Float32Array[]
+    /** Close the output stream. */
+    close: () => Promise<void>
+    /** Matching index in set signals for each signal (-1 for annotation signals). */
+    dataIndices: number[]
+    format: EncodingFormat
+    /** Header written at the start of the stream. */
+    header: EdfHeader
+    /** Write bytes at the given position of the output before closing it (if supported by the output). */
+    patch: ((position: number, bytes: Uint8Array) => Promise<void>) | null
+    /** Callback to patch the header after the output is closed. */
+    patchHeader: ((position: number, bytes: Uint8Array) => Promise<void> | void) | null
+    /** Number of data records written so far. */
+    recordCount: number
+    /** Write the given bytes into the output stream. */
+    write: (chunk: Uint8Array) => Promise<void>
+}
+
+/**
+ * Try to determine the type of a signal from its label.
+ * @param label - Signal label.
+ * @returns Signal type or empty string if the label does not identify the type.
+ */
+const signalTypeFromLabel = (label: string) => {
+    const type = EdfDecoder.ExtractSignalType(
+        { label: label.toLowerCase() } as EdfSignalInfo,
+        new Map(SIGNAL_TYPE_MATCHERS as [string, string][])
+    )
+    // EdfDecoder uses the 'ekg' type for ECG signals.
+    return type === 'ekg' ? 'ecg' : type
+}
+
+/**
+ * Zero-pad the given number into a two-digit string.
+ */
+const twoDigits = (value: number) => {
+    return value.toString().padStart(2, '0')
+}
+
+/**
+ * EdfEncoder is used to encode signal data into an European/Biosemi Data Format file. It supports both the original
+ * (EDF/BDF) and the extended specification (EDF+/BDF+). The format is selected by the `dataFormat` property of the
+ * header (`edf`, `edf+`, `bdf` or `bdf+`).
+ *
+ * Set the header with `setHeader(header: EdfHeader)` and the signal data with `setSignals(signals)`. Annotations to
+ * write into EDF+/BDF+ files can be set with `setAnnotations(annotations)`. Encoding is started with the method
+ * `encode()`, which returns the file as an ArrayBuffer.
+ *
+ * Discontinuous EDF+D/BDF+D files are encoded by setting the gaps in the signal data with `setDataGaps(dataGaps)`.
+ * The gaps are stored in the data record start times and no filler data is written into the file.
+ *
+ * The recording type given to the constructor selects a profile of defaults for signals that are not defined in the
+ * header: signal labels are prefixed with the standard EDF+ signal type (e.g. `EEG Fp1`) and missing units and
+ * transducer types are filled in from the signal type. The profile also provides the data record duration if the
+ * header does not define one. The `generic` recording type does not apply any defaults.
+ *
+ * Physical ranges of signals that are not defined in the header can be calculated from the signal data by enabling
+ * `setAutoRange(true)`. The resulting resolution and the number of clipped samples in each signal are available in
+ * the `report` property after encoding.
+ *
+ * Signals that are already in digital form, such as the raw signals of a decoded recording, can be encoded without
+ * re-quantization with `encodeDigital(records)`. Setting the original header record with `setTemplate(headerRecord)`
+ * keeps the bytes of unchanged header fields identical to the original file.
+ *
+ * Long recordings can be encoded incrementally into a writable stream. The stream is started with
+ * `startStream(output)`, which writes the header, after which signal data can be passed in chunks of any length
+ * with `writeRecords(data)`. Finally, `endStream()` writes the remaining data and patches the final number of data
+ * records into the header.
+ */
 export default class EdfEncoder implements FileFormatEncoder {
+    protected _annotations = [] as AnnotationTemplate[]
+    /** Headroom to use when calculating physical ranges from signal data, or null to use the set resolution. */
+    protected _autoRangeHeadroom = null as number | null
+    /** Minimum number of annotation signals to spread the annotations into. */
+    protected _annotationSignalCount = 1
+    /** Gaps in the signal data as <data time, gap duration> in seconds. */
+    protected _dataGaps = new Map() as SignalDataGapMap
     protected _header = null as EdfHeader | null
     protected _recordingType: EdfRecordingType
-    protected _signals = [] as Float32Array[]
+    protected _report = null as EdfEncodingReport | null
+    protected _signals = [] as EdfSignalProperties[]
+    protected _stream = null as EncodingStream | null
+    /** Original header record to copy the bytes of unchanged header fields from. */
+    protected _template = null as Uint8Array | null
+    /**
+     * Encode a single Time-stamped Annotation List (TAL).
+     * @param onset - Onset of the annotation in seconds from the start of the recording.
+     * @param duration - Duration of the annotation in seconds (zero to omit).
+     * @param texts - Annotation texts; an empty list will produce a data record start TAL.
+     * @returns The TAL as UTF-8 encoded bytes, including the terminating zero byte.
+     */
+    public static EncodeTal (onset: number, duration: number, texts: string[]): Uint8Array {
+        let tal = EdfEncoder.FormatTalTime(onset)
+        if (duration > 0) {
+            // Duration is always positive, so it is written without the sign.
+            tal += `\x15${EdfEncoder.FormatTalTime(duration).substring(1)}`
+        }
+        if (texts.length) {
+            // Annotation texts must not contain the TAL delimiter bytes.
+            const safeTexts = texts.map(t => t.replaceAll('\x00', ' ').replaceAll('\x14', ' ').replaceAll('\x15', ' '))
+            tal += `\x14${safeTexts.join('\x14')}\x14`
+        } else {
+            tal += '\x14\x14'
+        }
+        return new TextEncoder().encode(`${tal}\x00`)
+    }
+    /**
+     * Calculate a physical range that covers the given signal data with a headroom margin on both ends. The range
+     * limits are rounded outwards so that they fit into the eight character header fields.
+     * @param data - Physical signal data.
+     * @param headroom - Margin to add to both ends of the range, as a fraction of the range (default 0.1).
+     * @returns Physical range as [minimum, maximum] or null if the data contains no finite values.
+     */
+    public static CalculatePhysicalRange (data: Float32Array, headroom = DEFAULT_RANGE_HEADROOM) {
+        let min = Infinity
+        let max = -Infinity
+        for (const value of data) {
+            if (!isFinite(value)) {
+                continue
+            }
+            if (value < min) {
+                min = value
+            }
+            if (value > max) {
+                max = value
+            }
+        }
+        if (min > max) {
+            return null
+        }
+        // A flat signal still needs a non-zero range.
+        const span = max - min || Math.abs(max) || 1
+        const margin = span*Math.max(headroom, 0)
+        const roundOutwards = (value: number, upwards: boolean) => {
+            const formatted = EdfEncoder.FormatNumber(value) || ''
+            const rounded = parseFloat(formatted)
+            if (upwards ? rounded >= value : rounded <= value) {
+                return rounded
+            }
+            // Step by the last written decimal to the correct side of the value.
+            const decimals = formatted.includes('.') ? formatted.split('.')[1].length : 0
+            const step = Math.pow(10, -decimals)
+            return parseFloat(EdfEncoder.FormatNumber(upwards ? rounded + step : rounded - step) || '')
+        }
+        return [roundOutwards(min - margin, false), roundOutwards(max + margin, true)]
+    }
+    /**
+     * Format a number to fit into a numeric EDF header field, reducing the number of decimals if needed.
+     * @param value - The number to format.
+     * @param length - Length of the field in bytes (default 8).
+     * @returns The number as a string or null if the integer part does not fit into the field.
+     */
+    public static FormatNumber (value: number, length = 8): string | null {
+        const plain = value.toString()
+        if (plain.length <= length && !plain.includes('e')) {
+            return plain
+        }
+        for (let decimals=length; decimals>=0; decimals--) {
+            let fixed = value.toFixed(decimals)
+            if (decimals) {
+                // Remove trailing zeroes and a possible orphan decimal point.
+                fixed = fixed.replace(/\.?0+$/, '')
+            }
+            if (fixed === '-0') {
+                fixed = '0'
+            }
+            if (fixed.length <= length) {
+                return fixed
+            }
+        }
+        return null
+    }
+    /**
+     * Format signal filters into a prefiltering field value (e.g. "HP:0.1Hz LP:75Hz N:50Hz BS:48-52Hz").
+     * This is the inverse of `EdfDecoder.ParsePrefiltering`. Filters that do not fit into the field are left out.
+     * @param filters - Filters applied to the signal.
+     * @param length - Length of the field (default 80).
+     * @returns The prefiltering field value.
+     */
+    public static FormatPrefiltering (filters: BiosignalFilters, length = 80): string {
+        // Remove floating point artefacts from the frequencies.
+        const hz = (value: number) => `${parseFloat(value.toPrecision(6))}`
+        const entries = [] as string[]
+        if (filters.highpass) {
+            entries.push(`HP:${hz(filters.highpass)}Hz`)
+        }
+        if (filters.lowpass) {
+            entries.push(`LP:${hz(filters.lowpass)}Hz`)
+        }
+        if (filters.notch) {
+            entries.push(`N:${hz(filters.notch)}Hz`)
+        }
+        for (const [type, bands] of [['BS', filters.bandreject], ['BP', filters.bandpass]] as const) {
+            for (const band of bands || []) {
+                entries.push(`${type}:${hz(band[0])}-${hz(band[1])}Hz`)
+            }
+        }
+        let prefiltering = ''
+        for (const entry of entries) {
+            const next = prefiltering ? `${prefiltering} ${entry}` : entry
+            if (next.length > length) {
+                Log.warn(`Filter ${entry} does not fit into the prefiltering field and was left out.`, SCOPE)
+                continue
+            }
+            prefiltering = next
+        }
+        return prefiltering
+    }
+    /**
+     * Format a time in seconds into a Time-stamped Annotation List onset value (e.g. "+12.5").
+     * @param seconds - Time in seconds.
+     * @returns The formatted time.
+     */
+    public static FormatTalTime (seconds: number): string {
+        // Remove floating point artefacts and trailing zeroes.
+        const time = Math.abs(seconds).toFixed(9).replace(/\.?0+$/, '')
+        return `${seconds < 0 ? '-' : '+'}${time}`
+    }
+
     constructor (recordingType: EdfRecordingType) {
         this._recordingType = recordingType
     }
 
+    /**
+     * The header used for encoding.
+     */
+    get header () {
+        return this._header
+    }
+    /**
+     * Quantization report of the latest encoding, or null if nothing has been encoded yet.
+     * When streaming, the report is updated as data records are written.
+     */
+    get report () {
+        return this._report
+    }
+    /**
+     * Profile of default properties for the recording type of this encoder.
+     */
+    get recordingProfile () {
+        return RECORDING_PROFILES[this._recordingType] || RECORDING_PROFILES.generic
+    }
+    /**
+     * The signals to encode.
+     */
+    get signals () {
+        return this._signals
+    }
+    /**
+     * Number of data records written into the current stream, or zero if there is no active stream.
+     */
+    get streamedRecordCount () {
+        return this._stream?.recordCount || 0
+    }
+
+    /**
+     * Encode the set header and signals into an EDF/BDF file.
+     * @returns The file as an ArrayBuffer or null if an error occurred.
+     */
+    encode () {
+        if (!this._header) {
+            Log.error(`Cannot encode EDF file, header has not been set.`, SCOPE)
+            return null
+        }
+        if (!this._checkDataRecordDuration()) {
+            return null
+        }
+        const format = this._getFormat()
+        const discontinuous = this._header.discontinuous || this._dataGaps.size > 0
+        if (discontinuous && !format.isPlus) {
+            Log.error(`Cannot encode a discontinuous recording, data gaps are only supported in EDF+/BDF+.`, SCOPE)
+            return null
+        }
+        const prepared = this._prepareSignalInfo(format)
+        if (!prepared) {
+            return null
+        }
+        const { dataIndices, signalInfo } = prepared
+        // Calculate the number of data records needed to hold the longest signal.
+        let recordCount = 0
+        for (let i=0; i<signalInfo.length; i++) {
+            if (dataIndices[i] === -1) {
+                continue
+            }
+            const signal = this._signals[dataIndices[i]]
+            recordCount = Math.max(recordCount, Math.ceil(signal.data.length/signalInfo[i].sampleCount))
+        }
+        if (!recordCount) {
+            // A file with only annotations can still have data records.
+            recordCount = Math.max(this._header.dataRecordCount, 1)
+        }
+        // Ordinal number of each annotation signal among all annotation signals.
+        const annotationOrder = [] as number[]
+        for (let i=0; i<dataIndices.length; i++) {
+            annotationOrder.push(dataIndices[i] === -1 ? dataIndices.slice(0, i).filter(d => d === -1).length : -1)
+        }
+        // Prepare the TALs and make sure that the annotation signals can hold them without truncation.
+        const annotationRecords = format.isPlus
+                                  ? this._encodeAnnotationRecords(
+                                        this._getRecordStarts(recordCount),
+                                        dataIndices.filter(d => d === -1).length
+                                    )
+                                  : []
+        for (let i=0; i<signalInfo.length; i++) {
+            if (annotationOrder[i] === -1) {
+                continue
+            }
+            const maxBytes = Math.max(...annotationRecords.map(r => r[annotationOrder[i]].length))
+            const minSamples = Math.max(Math.ceil(maxBytes/format.bytesPerSample), 1)
+            if (signalInfo[i].sampleCount < minSamples) {
+                signalInfo[i].sampleCount = minSamples
+            }
+        }
+        const headerBytes = 256*(signalInfo.length + 1)
+        const recordByteSize = signalInfo.reduce((total, sig) => total + sig.sampleCount*format.bytesPerSample, 0)
+        const output = new Uint8Array(headerBytes + recordCount*recordByteSize)
+        const header = Object.assign({}, this._header, {
+            dataFormat: `${format.isBdf ? 'bdf' : 'edf'}${format.isPlus ? '+' : ''}`,
+            dataRecordCount: recordCount,
+            discontinuous: discontinuous,
+            headerRecordBytes: headerBytes,
+            isPlus: format.isPlus,
+            recordByteSize: recordByteSize,
+            signalCount: signalInfo.length,
+            signalInfo: signalInfo,
+        }) as EdfHeader
+        this._encodeHeader(header, output, this._template)
+        // Write the data records.
+        let offset = headerBytes
+        for (let r=0; r<recordCount; r++) {
+            for (let i=0; i<signalInfo.length; i++) {
+                const sigInfo = signalInfo[i]
+                if (dataIndices[i] === -1) {
+                    // Annotation signal bytes are written as-is, the rest of the signal is left as zeroes.
+                    output.set(annotationRecords[r][annotationOrder[i]], offset)
+                    offset += sigInfo.sampleCount*format.bytesPerSample
+                    continue
+                }
+                offset = this._writeSignalRecord(
+                    this._signals[dataIndices[i]].data, r*sigInfo.sampleCount, sigInfo, format, output, offset,
+                    dataIndices[i]
+                )
+            }
+        }
+        this._warnClippedSamples()
+        Log.debug(
+            `Encoded ${signalInfo.length} signals in ${recordCount} data records (${output.length} bytes).`,
+        SCOPE)
+        return output.buffer
+    }
+
+    /**
+     * Encode the set header and digital signal data into an EDF/BDF file. The header is written as it is, including
+     * all signal info and annotation signals, and the digital samples are written without conversion.
+     * @param records - Digital samples of each signal in the header as [signal][data record][sample].
+     * @returns The file as an ArrayBuffer or null if an error occurred.
+     */
+    encodeDigital (records: ArrayLike<number>[][]) {
+        if (!this._header) {
+            Log.error(`Cannot encode EDF file, header has not been set.`, SCOPE)
+            return null
+        }
+        const format = this._getFormat()
+        const signalInfo = this._header.signalInfo
+        if (records.length !== signalInfo.length) {
+            Log.error(`Expected digital data for ${signalInfo.length} signals, got ${records.length}.`, SCOPE)
+            return null
+        }
+        const recordCount = Math.max(0, ...records.map(r => r.length))
+        const headerBytes = 256*(signalInfo.length + 1)
+        const recordByteSize = signalInfo.reduce((total, sig) => total + sig.sampleCount*format.bytesPerSample, 0)
+        const output = new Uint8Array(headerBytes + recordCount*recordByteSize)
+        const header = Object.assign({}, this._header, {
+            dataRecordCount: recordCount,
+            headerRecordBytes: headerBytes,
+            recordByteSize: recordByteSize,
+            signalCount: signalInfo.length,
+        }) as EdfHeader
+        this._encodeHeader(header, output, this._template)
+        const sampleType = { bits: format.bytesPerSample*8, be: false, fp: false, signed: true }
+        let offset = headerBytes
+        for (let r=0; r<recordCount; r++) {
+            for (let i=0; i<signalInfo.length; i++) {
+                const samples = records[i][r] || []
+                if (samples.length !== signalInfo[i].sampleCount) {
+                    Log.error(
+                        `Data record ${r} of signal '${signalInfo[i].label}' has ${samples.length} samples, ` +
+                        `expected ${signalInfo[i].sampleCount}.`,
+                    SCOPE)
+                    return null
+                }
+                offset = packArrayTo(samples, sampleType, output, offset)
+            }
+        }
+        Log.debug(`Encoded ${signalInfo.length} digital signals in ${recordCount} data records.`, SCOPE)
+        return output.buffer
+    }
+
+    /**
+     * Write the remaining buffered signal data into the stream, padding the final data records if needed, and close
+     * the stream. The final number of data records is patched into the header if the output supports it.
+     * @returns The final number of data records or null if an error occurred.
+     */
+    async endStream () {
+        const stream = this._stream
+        if (!stream) {
+            Log.error(`Cannot end stream, there is no active stream.`, SCOPE)
+            return null
+        }
+        this._stream = null
+        try {
+            // Signals can have more buffered data than others, so write all the records that any signal has data
+            // for. The missing samples of the shorter signals are padded with zero line.
+            let recordCount = 0
+            for (let i=0; i<stream.dataIndices.length; i++) {
+                const dataIdx = stream.dataIndices[i]
+                if (dataIdx !== -1) {
+                    const sampleCount = stream.header.signalInfo[i].sampleCount
+                    recordCount = Math.max(recordCount, Math.ceil(stream.buffered[dataIdx].length/sampleCount))
+                }
+            }
+            if (recordCount) {
+                await this._writeStreamRecords(stream, recordCount)
+            }
+            if (stream.annotationQueue.length) {
+                Log.warn(
+                    `${stream.annotationQueue.length} annotations after the end of the written data records ` +
+                    `were left out.`,
+                SCOPE)
+            }
+            const patch = new TextEncoder().encode(asciiField(stream.recordCount.toString(), 8))
+            if (stream.patch) {
+                await stream.patch(RECORD_COUNT_POSITION, patch)
+            } else if (!stream.patchHeader) {
+                Log.warn(
+                    `Output stream does not support writing at a position, ` +
+                    `the number of data records remains unknown (-1) in the header.`,
+                SCOPE)
+            }
+            await stream.close()
+            this._warnClippedSamples()
+            if (stream.patchHeader) {
+                await stream.patchHeader(RECORD_COUNT_POSITION, patch)
+            }
+            Log.debug(`Closed output stream after ${stream.recordCount} data records.`, SCOPE)
+            return stream.recordCount
+        } catch (e) {
+            Log.error(`Failed to end output stream.`, SCOPE, e as Error)
+            return null
+        }
+    }
+
+    /**
+     * Set whether the physical ranges of signals that are not defined in the header are calculated from the signal
+     * data instead of the set resolution (`uVperInt16`). The full digital range of the format is always used.
+     * When streaming, the range is calculated from the data set in the signal properties when the stream is started.
+     * @param enabled - Calculate ranges from signal data.
+     * @param headroom - Margin to add to both ends of the range, as a fraction of the data range (default 0.1).
+     */
+    setAutoRange (enabled: boolean, headroom = DEFAULT_RANGE_HEADROOM) {
+        this._autoRangeHeadroom = enabled ? headroom : null
+    }
+
+    /**
+     * Set the annotations to write into the annotation signal(s) of an EDF+/BDF+ file. Annotations are written into
+     * the data record containing their onset and the annotation signals are sized to fit the largest record.
+     * @param annotations - Annotations to write.
+     * @param signalCount - Minimum number of annotation signals to spread the annotations into (default 1).
+     */
+    setAnnotations (annotations: AnnotationTemplate[], signalCount = 1) {
+        this._annotations = annotations
+        this._annotationSignalCount = Math.max(signalCount, 1)
+    }
+
+    /**
+     * Set the gaps in the signal data to encode as a discontinuous EDF+D/BDF+D file.
+     * Gap positions are in data time (excluding preceding gaps) and must be at data record boundaries.
+     * @param dataGaps - Data gaps as <data time, gap duration> in seconds.
+     */
+    setDataGaps (dataGaps: SignalDataGapMap) {
+        this._dataGaps = dataGaps
+    }
+
     setHeader (properties: EdfHeader) {
         this._header = properties
     }
 
+    /**
+     * Set the physical signal data to encode for the signals defined in the current header's signal info. The signal
+     * properties are taken from the signal info and the data of annotation signals is ignored.
+     * @param data - Physical signal data for each signal in the header's signal info.
+     */
+    setSignalData (data: Float32Array[]) {
+        if (!this._header) {
+            Log.error(`Cannot set signal data, header has not been set.`, SCOPE)
+            return
+        }
+        const format = this._getFormat()
+        const signals = [] as EdfSignalProperties[]
+        for (let i=0; i<this._header.signalInfo.length; i++) {
+            const info = this._header.signalInfo[i]
+            if (format.isPlus && info.label === format.annotationLabel) {
+                continue
+            }
+            signals.push({
+                data: data[i] || new Float32Array(),
+                label: info.label,
+                offsetFromBaseline: 0,
+                samplingRate: info.sampleCount/this._header.dataRecordDuration,
+                unit: info.physicalUnit,
+                uVperInt16: info.unitsPerBit,
+            })
+        }
+        this._signals = signals
+    }
+
+    /**
+     * Set the signals to encode. The signals are matched in order with the non-annotation signals in the header's
+     * signal info; signals that have no matching signal info use the properties given here.
+     * @param signals - Signal data and properties.
+     */
+    setSignals (signals: EdfSignalProperties[]) {
+        this._signals = signals
+    }
+
+    /**
+     * Set the original header record of the file being re-encoded. Header fields that have the same value as in the
+     * original header record are copied as they are, so that e.g. number formatting and reserved fields are kept
+     * byte-for-byte. The template is only used if the header record has the same size.
+     * @param headerRecord - The original header record or null to unset.
+     */
+    setTemplate (headerRecord: ArrayBuffer | null) {
+        this._template = headerRecord ? new Uint8Array(headerRecord) : null
+    }
+
+    /**
+     * Start encoding into a stream. The header is written immediately with an unknown (-1) number of data records,
+     * which is patched when the stream is ended. Signal properties (but not data) must be set before starting.
+     *
+     * Patching the header requires either an output that supports writing at a position (such as a
+     * `FileSystemWritableFileStream`) or a `patchHeader` callback, which is called after the output is closed.
+     * @param output - A `WritableStream` or a Node.js writable stream.
+     * @param options - Optional stream properties.
+     * @returns Success (true/false).
+     */
+    async startStream (output: WritableStream<Uint8Array> | NodeWritable, options?: EdfStreamOptions) {
+        if (this._stream) {
+            Log.error(`Cannot start stream, another stream is already active.`, SCOPE)
+            return false
+        }
+        if (!this._header) {
+            Log.error(`Cannot start stream, header has not been set.`, SCOPE)
+            return false
+        }
+        if (!this._checkDataRecordDuration()) {
+            return false
+        }
+        const format = this._getFormat()
+        const prepared = this._prepareSignalInfo(format)
+        if (!prepared) {
+            return false
+        }
+        const { dataIndices, signalInfo } = prepared
+        // The annotation signal size cannot be changed after the header is written.
+        const annotationBytes = options?.annotationBytes || STREAM_ANNOTATION_BYTES
+        for (let i=0; i<signalInfo.length; i++) {
+            if (dataIndices[i] === -1) {
+                signalInfo[i].sampleCount = Math.max(
+                    signalInfo[i].sampleCount,
+                    Math.ceil(annotationBytes/format.bytesPerSample)
+                )
+            }
+        }
+        const headerBytes = 256*(signalInfo.length + 1)
+        const header = Object.assign({}, this._header, {
+            dataFormat: `${format.isBdf ? 'bdf' : 'edf'}${format.isPlus ? '+' : ''}`,
+            // Number of data records is unknown until the stream is closed.
+            dataRecordCount: -1,
+            headerRecordBytes: headerBytes,
+            isPlus: format.isPlus,
+            recordByteSize: signalInfo.reduce((total, sig) => total + sig.sampleCount*format.bytesPerSample, 0),
+            signalCount: signalInfo.length,
+            signalInfo: signalInfo,
+        }) as EdfHeader
+        const { close, patch, write } = getStreamWriter(output)
+        const stream = {
+            annotationQueue: [...this._annotations].sort((a, b) => a.start - b.start),
+            buffered: this._signals.map(() => new Float32Array()),
+            close: close,
+            dataIndices: dataIndices,
+            format: format,
+            header: header,
+            patch: patch,
+            patchHeader: options?.patchHeader || null,
+            recordCount: 0,
+            write: write,
+        } as EncodingStream
+        try {
+            const headerRecord = new Uint8Array(headerBytes)
+            this._encodeHeader(header, headerRecord)
+            await stream.write(headerRecord)
+        } catch (e) {
+            Log.error(`Failed to write header into the output stream.`, SCOPE, e as Error)
+            return false
+        }
+        this._stream = stream
+        Log.debug(`Started output stream with ${signalInfo.length} signals.`, SCOPE)
+        return true
+    }
+
     updateHeader (properties: Partial<EdfHeader>) {
         if (!this._header) {
             Log.error(`Cannot update header, current header property is empty.`, SCOPE)
@@ -33,4 +726,578 @@ export default class EdfEncoder implements FileFormatEncoder {
         }
         Object.assign(this._header, properties)
     }
-}
\ No newline at end of file
+
+    /**
+     * Check that the header has a valid data record duration, using the duration of the recording profile if the
+     * header does not define one.
+     * @returns True if the duration is valid, false otherwise.
+     */
+    protected _checkDataRecordDuration () {
+        if (!this._header) {
+            return false
+        }
+        if (!this._header.dataRecordDuration) {
+            this._header.dataRecordDuration = this.recordingProfile.dataRecordDuration
+            Log.debug(
+                `Header has no data record duration, using ${this._header.dataRecordDuration} seconds from the ` +
+                `${this._recordingType} profile.`,
+            SCOPE)
+        }
+        if (!(this._header.dataRecordDuration > 0)) {
+            Log.error(`Data record duration must be a positive number, got ${this._header.dataRecordDuration}.`, SCOPE)
+            return false
+        }
+        return true
+    }
+
+    /**
+     * Encode the record start TALs and set annotations for each data record.
+     * Annotations with identical onset and duration are combined into a single TAL with multiple texts.
+     * @param recordStarts - Start time of each data record in seconds.
+     * @param signalCount - Number of annotation signals to spread the TALs into.
+     * @returns Encoded TALs as [data record][annotation signal].
+     */
+    protected _encodeAnnotationRecords (recordStarts: number[], signalCount: number) {
+        const recordCount = recordStarts.length
+        // Group annotations into TALs by data record.
+        const recordTals = [] as Map<string, { onset: number, duration: number, texts: string[] }>[]
+        for (let r=0; r<recordCount; r++) {
+            recordTals.push(new Map())
+        }
+        const sorted = [...this._annotations].sort((a, b) => a.start - b.start)
+        let record = 0
+        for (const anno of sorted) {
+            const text = anno.label || anno.text
+            if (!text) {
+                Log.debug(`Annotation at ${anno.start} seconds has no text and was not encoded.`, SCOPE)
+                continue
+            }
+            // Find the last record starting before the annotation, allowing for minor floating point errors.
+            while (record < recordCount - 1 && recordStarts[record + 1] <= anno.start + 1e-9) {
+                record++
+            }
+            const key = `${anno.start}:${anno.duration}`
+            const tal = recordTals[record].get(key)
+            if (tal) {
+                tal.texts.push(text)
+            } else {
+                recordTals[record].set(key, { onset: anno.start, duration: anno.duration, texts: [text] })
+            }
+        }
+        const records = [] as Uint8Array[][]
+        for (let r=0; r<recordCount; r++) {
+            // The first annotation signal must start with the record start TAL.
+            const signalTals = [[EdfEncoder.EncodeTal(recordStarts[r], 0, [])]] as Uint8Array[][]
+            const signalBytes = [signalTals[0][0].length]
+            for (let i=1; i<signalCount; i++) {
+                signalTals.push([])
+                signalBytes.push(0)
+            }
+            // Spread the TALs evenly into the available annotation signals.
+            for (const tal of recordTals[r].values()) {
+                const bytes = EdfEncoder.EncodeTal(tal.onset, tal.duration, tal.texts)
+                const target = signalBytes.indexOf(Math.min(...signalBytes))
+                signalTals[target].push(bytes)
+                signalBytes[target] += bytes.length
+            }
+            records.push(signalTals.map((tals, i) => {
+                const signalData = new Uint8Array(signalBytes[i])
+                let offset = 0
+                for (const tal of tals) {
+                    signalData.set(tal, offset)
+                    offset += tal.length
+                }
+                return signalData
+            }))
+        }
+        return records
+    }
+
+    /**
+     * Write the next chunk of signal data into the active stream. Only complete data records are written, the
+     * remaining samples are buffered until the next chunk or the end of the stream.
+     * @param data - Physical signal data for each set signal, in the same order as the signals.
+     * @param annotations - Additional annotations to write into the stream (optional).
+     * @returns The total number of data records written so far or null if an error occurred.
+     */
+    async writeRecords (data: Float32Array[], annotations?: AnnotationTemplate[]) {
+        const stream = this._stream
+        if (!stream) {
+            Log.error(`Cannot write data records, there is no active stream.`, SCOPE)
+            return null
+        }
+        if (data.length !== stream.buffered.length) {
+            Log.error(`Expected data for ${stream.buffered.length} signals, got ${data.length}.`, SCOPE)
+            return null
+        }
+        for (let i=0; i<data.length; i++) {
+            const combined = new Float32Array(stream.buffered[i].length + data[i].length)
+            combined.set(stream.buffered[i])
+            combined.set(data[i], stream.buffered[i].length)
+            stream.buffered[i] = combined
+        }
+        if (annotations?.length) {
+            stream.annotationQueue.push(...annotations)
+            stream.annotationQueue.sort((a, b) => a.start - b.start)
+        }
+        // Number of complete data records in the buffered data.
+        let recordCount = Infinity
+        for (let i=0; i<stream.dataIndices.length; i++) {
+            const dataIdx = stream.dataIndices[i]
+            if (dataIdx !== -1) {
+                const sampleCount = stream.header.signalInfo[i].sampleCount
+                recordCount = Math.min(recordCount, Math.floor(stream.buffered[dataIdx].length/sampleCount))
+            }
+        }
+        if (recordCount === Infinity) {
+            recordCount = 0
+        }
+        try {
+            if (recordCount) {
+                await this._writeStreamRecords(stream, recordCount)
+            }
+        } catch (e) {
+            Log.error(`Failed to write data records into the output stream.`, SCOPE, e as Error)
+            return null
+        }
+        return stream.recordCount
+    }
+
+    /**
+     * Write the header record into the start of the given buffer.
+     * @param header - Header to write, with complete signal info.
+     * @param output - Output buffer.
+     * @param template - Original header record to copy the bytes of unchanged fields from (optional).
+     * @returns Byte offset at the end of the header record.
+     */
+    protected _encodeHeader (header: EdfHeader, output: Uint8Array, template?: Uint8Array | null) {
+        let offset = 0
+        // The template is only usable if the field positions are the same.
+        const original = template?.length === header.headerRecordBytes ? template : null
+        const copyOriginal = (isUnchanged: (field: string) => boolean, length: number) => {
+            if (!original || !isUnchanged(unpackString(original, offset, offset + length) || '')) {
+                return false
+            }
+            output.set(original.subarray(offset, offset + length), offset)
+            offset += length
+            return true
+        }
+        const writeField = (value: string, length: number) => {
+            const field = asciiField(value, length)
+            if (copyOriginal(f => f.trim() === field.trim(), length)) {
+                return
+            }
+            packStringTo(field, output, offset)
+            offset += length
+        }
+        const writeNumber = (value: number, length: number, field: string) => {
+            if (copyOriginal(f => f.trim() !== '' && Number(f.trim()) === value, length)) {
+                return
+            }
+            const formatted = EdfEncoder.FormatNumber(value, length)
+            if (formatted === null) {
+                Log.warn(`Value ${value} does not fit into ${field} header field.`, SCOPE)
+            }
+            writeField(formatted || '', length)
+        }
+        const isBdf = header.dataFormat.startsWith('bdf')
+        if (isBdf) {
+            // 1 byte (255) + 7 ASCII : BDF identification code (BIOSEMI).
+            output[offset++] = 255
+            writeField('BIOSEMI', 7)
+        } else {
+            // 8 ASCII : version of this data format (0).
+            writeField('0', 8)
+        }
+        // 80 ASCII : local patient identification.
+        // An empty EDF+ patient field is formatted from the structured patient identification, if present.
+        writeField(
+            !header.patientId && header.isPlus && header.patient ? formatPatientId(header.patient) : header.patientId,
+            80
+        )
+        // 80 ASCII : local recording identification.
+        // An empty EDF+ recording field is formatted from the structured recording identification, if present.
+        writeField(
+            !header.localRecordingId && header.isPlus && header.recordingInfo
+                ? formatRecordingId(header.recordingInfo)
+                : header.localRecordingId,
+            80
+        )
+        // 8 ASCII : startdate of recording (dd.mm.yy) and 8 ASCII : starttime of recording (hh.mm.ss).
+        const date = header.recordingDate
+        if (date) {
+            // EDF+ uses 'yy' as the year after 2084, the actual year is in the recording identification.
+            const year = header.isPlus && date.getFullYear() > 2084 ? 'yy' : twoDigits(date.getFullYear()%100)
+            writeField(`${twoDigits(date.getDate())}.${twoDigits(date.getMonth() + 1)}.${year}`, 8)
+            writeField(`${twoDigits(date.getHours())}.${twoDigits(date.getMinutes())}.` +
+                       `${twoDigits(date.getSeconds())}`, 8)
+        } else {
+            // Use the earliest date supported by the format.
+            writeField('01.01.85', 8)
+            writeField('00.00.00', 8)
+        }
+        // 8 ASCII : number of bytes in header record.
+        writeNumber(header.headerRecordBytes, 8, 'header record size')
+        // 44 ASCII : reserved.
+        let reserved = header.reserved || ''
+        const formatId = isBdf ? 'BDF' : 'EDF'
+        if (header.isPlus) {
+            const marker = `${formatId}+${header.discontinuous ? 'D' : 'C'}`
+            reserved = reserved.toUpperCase().startsWith(`${formatId}+`) ? marker + reserved.substring(5) : marker
+        } else if (isBdf && !reserved && !original) {
+            // Plain BDF files use the reserved field to mark the sample bit depth.
+            reserved = '24BIT'
+        }
+        writeField(reserved, 44)
+        // 8 ASCII : number of data records.
+        writeNumber(header.dataRecordCount, 8, 'data record count')
+        // 8 ASCII : duration of a data record, in seconds.
+        writeNumber(header.dataRecordDuration, 8, 'data record duration')
+        // 4 ASCII : number of signals (ns) in data record.
+        writeNumber(header.signalCount, 4, 'signal count')
+        // Signal info fields are written one field at a time for all signals.
+        const signals = header.signalInfo
+        signals.forEach(s => writeField(s.label, 16))
+        signals.forEach(s => writeField(s.transducerType, 80))
+        signals.forEach(s => writeField(s.physicalUnit, 8))
+        signals.forEach(s => writeNumber(s.physicalMinimum, 8, 'physical minimum'))
+        signals.forEach(s => writeNumber(s.physicalMaximum, 8, 'physical maximum'))
+        signals.forEach(s => writeNumber(s.digitalMinimum, 8, 'digital minimum'))
+        signals.forEach(s => writeNumber(s.digitalMaximum, 8, 'digital maximum'))
+        signals.forEach(s => writeField(s.prefiltering, 80))
+        signals.forEach(s => writeNumber(s.sampleCount, 8, 'sample count'))
+        signals.forEach(s => writeField(s.reserved, 32))
+        return offset
+    }
+
+    /**
+     * Get the start time of each data record, including the preceding data gaps.
+     * @param recordCount - Number of data records in the file.
+     * @returns Data record start times in seconds.
+     */
+    protected _getRecordStarts (recordCount: number) {
+        const duration = this._header?.dataRecordDuration || 1
+        // Gaps are stored as the total gap before each data record.
+        const recordGaps = new Map<number, number>()
+        for (const [dataPos, gap] of this._dataGaps) {
+            if (gap <= 0) {
+                continue
+            }
+            const record = Math.round(dataPos/duration)
+            if (record >= recordCount) {
+                Log.warn(`Data gap at ${dataPos} seconds is past the end of signal data and was ignored.`, SCOPE)
+                continue
+            }
+            if (Math.abs(record*duration - dataPos) > 1e-6) {
+                Log.warn(
+                    `Data gap at ${dataPos} seconds is not at a data record boundary, ` +
+                    `it was moved to ${record*duration} seconds.`,
+                SCOPE)
+            }
+            recordGaps.set(record, (recordGaps.get(record) || 0) + gap)
+        }
+        const recordStarts = [] as number[]
+        let gapTotal = 0
+        for (let r=0; r<recordCount; r++) {
+            gapTotal += recordGaps.get(r) || 0
+            recordStarts.push(r*duration + gapTotal)
+        }
+        return recordStarts
+    }
+
+    /**
+     * Get the properties of the format set in the current header.
+     * @returns Format properties.
+     */
+    protected _getFormat (): EncodingFormat {
+        const dataFormat = this._header?.dataFormat.toLowerCase() || 'edf'
+        const isBdf = dataFormat.startsWith('bdf')
+        return {
+            annotationLabel: isBdf ? 'BDF Annotations' : 'EDF Annotations',
+            bytesPerSample: isBdf ? 3 : 2,
+            digitalRange: isBdf ? BDF_DIGITAL_RANGE : EDF_DIGITAL_RANGE,
+            isBdf: isBdf,
+            isPlus: this._header?.isPlus || dataFormat.endsWith('+'),
+        }
+    }
+
+    /**
+     * Get the default properties for the given signal from the recording profile.
+     * @param signal - Signal properties.
+     * @returns Signal type defaults or null if the signal type has no defaults or the profile does not apply them.
+     */
+    protected _getSignalDefaults (signal: EdfSignalProperties) {
+        const profile = this.recordingProfile
+        if (!profile.prefixLabels && !signal.type) {
+            return null
+        }
+        const type = signal.type?.toLowerCase() || signalTypeFromLabel(signal.label || '') || profile.defaultSignalType
+        return SIGNAL_TYPE_DEFAULTS[type === 'ekg' ? 'ecg' : type] || null
+    }
+
+    /**
+     * Write the given number of data records from the buffered stream data into the output stream.
+     * @param stream - The active stream.
+     * @param recordCount - Number of data records to write.
+     */
+    protected async _writeStreamRecords (stream: EncodingStream, recordCount: number) {
+        const { dataIndices, format, header } = stream
+        const output = new Uint8Array(recordCount*header.recordByteSize)
+        let offset = 0
+        for (let r=0; r<recordCount; r++) {
+            const recordStart = (stream.recordCount + r)*header.dataRecordDuration
+            const recordEnd = recordStart + header.dataRecordDuration
+            let isFirstAnnotationSignal = true
+            for (let i=0; i<header.signalInfo.length; i++) {
+                const sigInfo = header.signalInfo[i]
+                const signalBytes = sigInfo.sampleCount*format.bytesPerSample
+                if (dataIndices[i] !== -1) {
+                    offset = this._writeSignalRecord(
+                        stream.buffered[dataIndices[i]], r*sigInfo.sampleCount, sigInfo, format, output, offset,
+                        dataIndices[i]
+                    )
+                    continue
+                }
+                // Fill the annotation signals with queued annotations that start before the end of this record.
+                let annotationOffset = offset
+                if (isFirstAnnotationSignal) {
+                    const recordTal = EdfEncoder.EncodeTal(recordStart, 0, [])
+                    output.set(recordTal, annotationOffset)
+                    annotationOffset += recordTal.length
+                    isFirstAnnotationSignal = false
+                }
+                while (stream.annotationQueue.length && stream.annotationQueue[0].start < recordEnd) {
+                    const anno = stream.annotationQueue[0]
+                    const text = anno.label || anno.text
+                    const tal = text ? EdfEncoder.EncodeTal(anno.start, anno.duration, [text]) : new Uint8Array()
+                    if (tal.length > signalBytes - (annotationOffset - offset)) {
+                        if (annotationOffset === offset) {
+                            Log.warn(`Annotation '${text}' does not fit into the annotation signal.`, SCOPE)
+                            stream.annotationQueue.shift()
+                            continue
+                        }
+                        // Continue in the next annotation signal or data record.
+                        break
+                    }
+                    output.set(tal, annotationOffset)
+                    annotationOffset += tal.length
+                    stream.annotationQueue.shift()
+                }
+                offset += signalBytes
+            }
+        }
+        // Remove the written samples from the buffer.
+        for (let i=0; i<dataIndices.length; i++) {
+            if (dataIndices[i] !== -1) {
+                const written = recordCount*header.signalInfo[i].sampleCount
+                stream.buffered[dataIndices[i]] = stream.buffered[dataIndices[i]].slice(written)
+            }
+        }
+        await stream.write(output)
+        stream.recordCount += recordCount
+    }
+
+    /**
+     * Convert one data record of a physical signal into digital samples and write them into the output buffer.
+     * Samples past the end of the signal data are padded with zero line.
+     * @param data - Physical signal data.
+     * @param start - Index of the first sample of this data record in the signal data.
+     * @param sigInfo - Normalized signal info of the signal.
+     * @param format - Properties of the format to encode.
+     * @param output - Output buffer.
+     * @param offset - Byte offset to start writing at.
+     * @param dataIndex - Index of the signal in set signals, used to report clipped samples.
+     * @returns Byte offset after the written samples.
+     */
+    protected _writeSignalRecord (
+        data: Float32Array,
+        start: number,
+        sigInfo: EdfSignalInfo,
+        format: EncodingFormat,
+        output: Uint8Array,
+        offset: number,
+        dataIndex: number
+    ) {
+        const sampleType = { bits: format.bytesPerSample*8, be: false, fp: false, signed: true }
+        const digital = new Array<number>(sigInfo.sampleCount)
+        let clipped = 0
+        for (let j=0; j<sigInfo.sampleCount; j++) {
+            const physical = start + j < data.length ? data[start + j] : 0
+            // Inverse of the physical signal conversion used in EdfDecoder.
+            const value = Math.round(physical/sigInfo.unitsPerBit - sigInfo.digitalOffset)
+            if (value < sigInfo.digitalMinimum || value > sigInfo.digitalMaximum) {
+                clipped++
+            }
+            digital[j] = Math.min(Math.max(value, sigInfo.digitalMinimum), sigInfo.digitalMaximum)
+        }
+        if (clipped && this._report?.signals[dataIndex]) {
+            this._report.clippedSamples += clipped
+            this._report.signals[dataIndex].clippedSamples += clipped
+        }
+        return packArrayTo(digital, sampleType, output, offset)
+    }
+
+    /**
+     * Log a warning about each signal that had samples clipped to the digital range during encoding.
+     */
+    protected _warnClippedSamples () {
+        for (const signal of this._report?.signals || []) {
+            if (signal.clippedSamples) {
+                Log.warn(
+                    `${signal.clippedSamples} samples of signal '${signal.label}' were outside of the physical ` +
+                    `range ${signal.physicalMinimum} - ${signal.physicalMaximum} and were clipped.`,
+                SCOPE)
+            }
+        }
+    }
+
+    /**
+     * Construct the signal info to write into the header from the header signal info and the set signal properties.
+     * Numeric values are normalized to the precision they are written in, so that the digital conversion matches
+     * the one done when decoding the file.
+     * @param format - Properties of the format to encode.
+     * @returns Signal info and the matching index in set signals (-1 for annotation signals), or null on error.
+     */
+    protected _prepareSignalInfo (format: EncodingFormat) {
+        if (!this._header) {
+            return null
+        }
+        const duration = this._header.dataRecordDuration
+        const dataIndices = [] as number[]
+        const signalInfo = [] as EdfSignalInfo[]
+        const report = { clippedSamples: 0, signals: [] } as EdfEncodingReport
+        const addSignalInfo = (info: EdfSignalInfo, dataIndex: number, rangeFromData = false) => {
+            const physMin = parseFloat(EdfEncoder.FormatNumber(info.physicalMinimum) || '')
+            const physMax = parseFloat(EdfEncoder.FormatNumber(info.physicalMaximum) || '')
+            const digMin = Math.round(info.digitalMinimum)
+            const digMax = Math.round(info.digitalMaximum)
+            if (isNaN(physMin) || isNaN(physMax) || physMin === physMax) {
+                Log.error(`Signal '${info.label}' has an invalid physical range ${physMin} - ${physMax}.`, SCOPE)
+                return false
+            }
+            if (digMin >= digMax || digMin < format.digitalRange[0] || digMax > format.digitalRange[1]) {
+                Log.error(`Signal '${info.label}' has an invalid digital range ${digMin} - ${digMax}.`, SCOPE)
+                return false
+            }
+            const unitsPerBit = (physMax - physMin)/(digMax - digMin)
+            signalInfo.push(safeObjectFrom({
+                ...info,
+                digitalMaximum: digMax,
+                digitalMinimum: digMin,
+                digitalOffset: physMax/unitsPerBit - digMax,
+                physicalMaximum: physMax,
+                physicalMinimum: physMin,
+                unitsPerBit: unitsPerBit,
+            }) as EdfSignalInfo)
+            dataIndices.push(dataIndex)
+            report.signals[dataIndex] = {
+                clippedSamples: 0,
+                label: info.label,
+                physicalMaximum: physMax,
+                physicalMinimum: physMin,
+                rangeFromData: rangeFromData,
+                unitsPerBit: unitsPerBit,
+            }
+            return true
+        }
+        const addAnnotationSignal = (info?: EdfSignalInfo) => {
+            signalInfo.push(safeObjectFrom({
+                digitalMaximum: info?.digitalMaximum ?? format.digitalRange[1],
+                digitalMinimum: info?.digitalMinimum ?? format.digitalRange[0],
+                digitalOffset: 0,
+                label: format.annotationLabel,
+                physicalMaximum: info?.physicalMaximum ?? 1,
+                physicalMinimum: info?.physicalMinimum ?? -1,
+                physicalUnit: info?.physicalUnit ?? '',
+                prefiltering: info?.prefiltering ?? '',
+                reserved: info?.reserved ?? '',
+                sampleCount: info?.sampleCount ?? 0,
+                samplingRate: 0,
+                transducerType: info?.transducerType ?? '',
+                unitsPerBit: 0,
+            }) as EdfSignalInfo)
+            dataIndices.push(-1)
+        }
+        let nextSignal = 0
+        for (const info of this._header.signalInfo) {
+            if (format.isPlus && info.label === format.annotationLabel) {
+                addAnnotationSignal(info)
+                continue
+            }
+            const signal = this._signals[nextSignal]
+            if (!signal) {
+                Log.error(`Cannot encode EDF file, signal data for '${info.label}' is missing.`, SCOPE)
+                return null
+            }
+            if (Math.abs(signal.samplingRate*duration - info.sampleCount) > 1e-6) {
+                Log.error(
+                    `Sampling rate ${signal.samplingRate} of signal '${info.label}' does not match ` +
+                    `${info.sampleCount} samples per data record.`,
+                SCOPE)
+                return null
+            }
+            if (!addSignalInfo(info, nextSignal)) {
+                return null
+            }
+            nextSignal++
+        }
+        // Construct signal info for the remaining signals from their properties.
+        for (; nextSignal<this._signals.length; nextSignal++) {
+            const signal = this._signals[nextSignal]
+            const defaults = this._getSignalDefaults(signal)
+            let label = signal.label || `Signal ${nextSignal + 1}`
+            // Only prefix labels that do not already identify the signal type.
+            if (
+                defaults && this.recordingProfile.prefixLabels && !signalTypeFromLabel(label) &&
+                !label.toLowerCase().startsWith(defaults.labelPrefix.toLowerCase())
+            ) {
+                label = `${defaults.labelPrefix} ${label}`
+            }
+            const sampleCount = Math.round(signal.samplingRate*duration)
+            if (!sampleCount || Math.abs(signal.samplingRate*duration - sampleCount) > 1e-6) {
+                Log.error(
+                    `Sampling rate ${signal.samplingRate} of signal '${label}' does not result in a whole number ` +
+                    `of samples in a data record of ${duration} seconds.`,
+                SCOPE)
+                return null
+            }
+            const dataRange = this._autoRangeHeadroom !== null
+                              ? EdfEncoder.CalculatePhysicalRange(signal.data, this._autoRangeHeadroom)
+                              : null
+            if (!dataRange && !(signal.uVperInt16 > 0)) {
+                Log.error(`Signal '${label}' has an invalid resolution of ${signal.uVperInt16} units per bit.`, SCOPE)
+                return null
+            }
+            const physicalRange = dataRange || [
+                format.digitalRange[0]*signal.uVperInt16 + signal.offsetFromBaseline,
+                format.digitalRange[1]*signal.uVperInt16 + signal.offsetFromBaseline,
+            ]
+            const success = addSignalInfo(safeObjectFrom({
+                digitalMaximum: format.digitalRange[1],
+                digitalMinimum: format.digitalRange[0],
+                label: label,
+                physicalMaximum: physicalRange[1],
+                physicalMinimum: physicalRange[0],
+                physicalUnit: signal.unit || defaults?.physicalUnit || '',
+                prefiltering: typeof signal.prefiltering === 'object'
+                              ? EdfEncoder.FormatPrefiltering(signal.prefiltering)
+                              : signal.prefiltering || '',
+                reserved: '',
+                sampleCount: sampleCount,
+                samplingRate: signal.samplingRate,
+                transducerType: signal.transducerType || defaults?.transducerType || '',
+            }) as EdfSignalInfo, nextSignal, dataRange !== null)
+            if (!success) {
+                return null
+            }
+        }
+        if (format.isPlus) {
+            // EDF+/BDF+ files must always contain at least one annotation signal.
+            while (dataIndices.filter(d => d === -1).length < this._annotationSignalCount) {
+                addAnnotationSignal()
+            }
+        }
+        this._report = report
+        return { dataIndices, signalInfo }
+    }
+}
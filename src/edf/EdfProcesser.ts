@@ -18,6 +18,7 @@ import {
     MB_BYTES,
 } from '@epicurrents/core/dist/util'
 import {
+    type AnnotationTemplate,
     type AppSettings,
     type BiosignalChannel,
     type BiosignalHeaderRecord,
@@ -25,14 +26,25 @@ import {
     type ReadDirection,
     type SignalCachePart,
     type SignalCacheProcess,
+    type SignalDataGapMap,
     type SignalDataReader,
     type SignalFilePart,
 } from '@epicurrents/core/dist/types'
-import { type EdfHeader, type EdfSignalPart } from '#types'
+import {
+    type EdfAnnotationImportOptions,
+    type EdfExportChannels,
+    type EdfHeader,
+    type EdfSignalInfo,
+    type EdfSignalPart,
+    type EdfSignalProperties,
+    type EdfTailOptions,
+} from '#types'
 import IOMutex, { type MutexExportProperties } from 'asymmetric-io-mutex'
+import EdfAnnotationImporter from './EdfAnnotationImporter'
 import EdfDecoder from './EdfDecoder'
+import EdfEncoder from './EdfEncoder'
 import { Log } from 'scoped-event-log'
-import { isAnnotationSignal } from '#util'
+import { isAnnotationSignal, replaceStartdate, writePaddedTimekeeping } from '#util'
 
 const SCOPE = 'EdfProcesser'
 
@@ -41,6 +53,8 @@ const LOAD_DIRECTION_BACKWARD: ReadDirection = 'backward'
 const LOAD_DIRECTION_FORWARD: ReadDirection = 'forward'
 /** Maximum time to wait for missing signals to me loaded, in milliseconds. */
 const AWAIT_SIGNALS_TIME = 5000
+/** Default interval between file size checks in tail mode, in milliseconds. */
+const DEFAULT_TAIL_POLL_INTERVAL = 1000
 
 export default class EdfProcesser extends SignalFileReader implements SignalDataReader {
 
@@ -48,6 +62,12 @@ export default class EdfProcesser extends SignalFileReader implements SignalData
     protected _decoder = null as EdfDecoder | null
     /** Parsed header of the EDF recording. */
     protected _header = null as EdfHeader | null
+    /** Annotations imported from external files, to include when exporting the recording. */
+    protected _importedAnnotations = [] as AnnotationTemplate[]
+    /** Options of the tail mode, or null if the file is not followed. */
+    protected _tailOptions = null as EdfTailOptions | null
+    /** Timer of the next file size check in tail mode. */
+    protected _tailTimer = null as ReturnType<typeof setTimeout> | null
     /** A method to pass update messages through. */
     protected _updateCallback = null as ((update: { [prop: string]: unknown }) => void) | null
     /** Settings must be kept up-to-date with the main application. */
@@ -94,7 +114,9 @@ export default class EdfProcesser extends SignalFileReader implements SignalData
         // Save starting time for debugging.
         this._startTime = Date.now()
         /** The number of data units in the file to be loaded. */
-        this._dataUnitCount = Math.floor((file.size - this._dataOffset)/this._dataUnitSize)
+        this._dataUnitCount = this._padsPartialRecord()
+                              ? Math.ceil((file.size - this._dataOffset)/this._dataUnitSize)
+                              : Math.floor((file.size - this._dataOffset)/this._dataUnitSize)
         // Signal data is converted from int16 to float32, so it will take double the size of the file itself.
         if (file.size < this.SETTINGS.app.maxLoadCacheSize/2 && !startFrom) {
             Log.info(`Starting progressive loading of a file of size ${(file.size/MB_BYTES).toFixed(2)} MiB.`, SCOPE)
@@ -256,6 +278,89 @@ export default class EdfProcesser extends SignalFileReader implements SignalData
         return true
     }
 
+    /**
+     * Export a part of the recording as a new EDF/EDF+ file. Only the data records needed for the excerpt are read
+     * and the excerpt is expanded to contain whole data records. The start date of the new file is moved to the start
+     * of the excerpt, annotations within the excerpt are carried over with onsets relative to the new start and data
+     * gaps within the excerpt are kept (making the new file discontinuous).
+     *
+     * A subset of the signals can be exported and new signals can be derived from the recording signals. The header
+     * fields of the exported signals are regenerated; the physical ranges of derived signals are calculated from the
+     * signal data. The average reference of a derivation includes the active signal itself.
+     * @param start - Start of the excerpt in recording seconds.
+     * @param end - End of the excerpt in recording seconds.
+     * @param channels - Channels to export (optional, default all signals).
+     * @returns The excerpt as an ArrayBuffer or null if an error occurred.
+     */
+    async exportExcerpt (start: number, end: number, channels?: EdfExportChannels) {
+        if (!this._header) {
+            Log.error(`Cannot export excerpt, study has not been set up yet.`, SCOPE)
+            return null
+        }
+        // Excerpts must start at a data record boundary.
+        const firstRecord = Math.max(0, this._timeToDataUnitIndex(start))
+        const excerptStart = this._dataUnitIndexToTime(firstRecord)
+        // Excerpts must also end at a data record boundary, or the encoder would pad the last record with zeroes.
+        let endRecord = this._timeToDataUnitIndex(Math.min(end, this._totalRecordingLength))
+        if (endRecord !== NUMERIC_ERROR_VALUE && this._dataUnitIndexToTime(endRecord) < end) {
+            endRecord++
+        }
+        const excerptEnd = endRecord !== NUMERIC_ERROR_VALUE
+                           ? this._dataUnitIndexToTime(Math.min(endRecord, this._dataUnitCount))
+                           : NUMERIC_ERROR_VALUE
+        if (
+            excerptStart === NUMERIC_ERROR_VALUE || excerptEnd === NUMERIC_ERROR_VALUE ||
+            excerptStart >= excerptEnd
+        ) {
+            Log.error(`Cannot export excerpt, range ${start} - ${end} is invalid.`, SCOPE)
+            return null
+        }
+        const part = await this.getSignalPart(excerptStart, excerptEnd, true, false)
+        if (!part?.signals.length) {
+            Log.error(`Cannot export excerpt, signal data for range ${start} - ${end} could not be loaded.`, SCOPE)
+            return null
+        }
+        // Data gaps are in data time, rebase them to the start of the excerpt.
+        const dataStart = firstRecord*this._header.dataRecordDuration
+        const dataGaps = new Map() as SignalDataGapMap
+        for (const [pos, gap] of part.dataGaps || []) {
+            if (pos > dataStart) {
+                dataGaps.set(pos - dataStart, gap)
+            }
+        }
+        const annotations = [...(part.annotations || []), ...this._importedAnnotations]
+                            .filter(a => a.start >= excerptStart && a.start < part.end)
+                            .map(a => ({ ...a, start: a.start - excerptStart }))
+        const recordingDate = this._header.recordingDate
+                              ? new Date(this._header.recordingDate.getTime() + excerptStart*1000)
+                              : null
+        const selection = channels ? this._getExportSignals(part.signals.map(s => s.data), channels) : null
+        if (channels && !selection) {
+            return null
+        }
+        const encoder = new EdfEncoder('generic')
+        encoder.setHeader(Object.assign({}, this._header, {
+            dataRecordCount: 0,
+            discontinuous: false,
+            localRecordingId: replaceStartdate(this._header.localRecordingId, recordingDate),
+            recordingDate: recordingDate,
+            signalInfo: selection?.signalInfo || this._header.signalInfo,
+        }) as EdfHeader)
+        if (selection) {
+            encoder.setAutoRange(true)
+            encoder.setSignals(selection.signals)
+        } else {
+            encoder.setSignalData(part.signals.map(s => s.data))
+        }
+        encoder.setAnnotations(annotations)
+        encoder.setDataGaps(dataGaps)
+        const excerpt = encoder.encode()
+        if (excerpt) {
+            Log.debug(`Exported excerpt ${excerptStart} - ${part.end} as a new file.`, SCOPE)
+        }
+        return excerpt
+    }
+
     /**
      * Load part of raw recording signals.
      * @param start - Start time as seconds.
@@ -570,6 +675,34 @@ export default class EdfProcesser extends SignalFileReader implements SignalData
         return { start: this._cacheTimeToRecordingTime(highestStart), end: this._cacheTimeToRecordingTime(lowestEnd) }
     }
 
+    /**
+     * Import annotations from an external delimited text file (such as a BIDS `events.tsv` file) and add them to the
+     * annotations of the recording. The imported annotations are also included in exported excerpts.
+     * @param text - Contents of the annotation file.
+     * @param options - Options for parsing the file (optional).
+     * @returns The imported annotations or null if an error occurred.
+     */
+    importAnnotations (text: string, options?: EdfAnnotationImportOptions) {
+        if (!this._header) {
+            Log.error(`Cannot import annotations, study has not been set up yet.`, SCOPE)
+            return null
+        }
+        const annotations = [] as AnnotationTemplate[]
+        for (const anno of new EdfAnnotationImporter(options).parse(text)) {
+            if (anno.start < 0 || anno.start >= this._totalRecordingLength) {
+                Log.warn(`Imported annotation '${anno.label}' at ${anno.start} is outside the recording.`, SCOPE)
+                continue
+            }
+            annotations.push(anno)
+        }
+        if (annotations.length) {
+            this._importedAnnotations.push(...annotations)
+            this.cacheNewAnnotations(...annotations)
+        }
+        Log.debug(`Imported ${annotations.length} annotations.`, SCOPE)
+        return annotations
+    }
+
     /**
      * Read the next signal part starting from the given record index and cache it.
      * @param start - Data record to start from (inclusive).
@@ -726,8 +859,23 @@ export default class EdfProcesser extends SignalFileReader implements SignalData
         }
         const startTime = this._dataUnitIndexToTime(unitStart)
         const partLength = this._dataUnitIndexToTime(unitEnd - unitStart)
+        let blob = await getBlob()
+        if (blob.size < dataEnd - dataStart && this._padsPartialRecord()) {
+            // Pad the partial last data record with zeroes and give it a timekeeping TAL.
+            const bytes = new Uint8Array(dataEnd - dataStart)
+            bytes.set(new Uint8Array(await blob.arrayBuffer()))
+            const recordStart = (unitEnd - unitStart - 1)*this._dataUnitSize
+            writePaddedTimekeeping(
+                bytes.subarray(recordStart),
+                this._header as EdfHeader,
+                blob.size - recordStart,
+                this._dataUnitIndexToTime(unitEnd - 1),
+                recordStart ? bytes.subarray(recordStart - this._dataUnitSize, recordStart) : undefined
+            )
+            blob = new Blob([bytes])
+        }
         const signalFilePart = this._blobToFile(
-            await getBlob(),
+            blob,
             `SignalFilePart[${startTime},${startTime + partLength}]`
         )
         // Cache only the visible part.
@@ -739,11 +887,33 @@ export default class EdfProcesser extends SignalFileReader implements SignalData
         } as SignalFilePart
     }
 
+    /**
+     * Set the tail mode for following a file that is still being recorded. In tail mode, the size of the file at the
+     * source URL is checked at the given interval and new data records are read into the signal cache as they are
+     * appended to the file. A `cache-signals` update with the new data and recording length is sent each time the
+     * recording grows. New records can only be cached as long as the signal cache has room for them, so the cache
+     * is set up to hold the `maxDuration` of the tail options if it is longer than the recording.
+     *
+     * Tail mode is started automatically when the study is set up with a format header that has tail options.
+     * @param options - Tail options, or null to stop following the file.
+     */
+    setTailMode (options: EdfTailOptions | null) {
+        if (this._tailTimer) {
+            clearTimeout(this._tailTimer)
+            this._tailTimer = null
+        }
+        this._tailOptions = options
+        if (options) {
+            Log.debug(`Following the recording in tail mode.`, SCOPE)
+            this._scheduleTailPoll()
+        }
+    }
+
     setupCache (dataDuration = 0) {
         if (this._fallbackCache) {
             Log.warn(`Tried to re-initialize already initialized EDF signal cache.`, SCOPE)
         } else {
-            this._fallbackCache = new BiosignalCache(dataDuration)
+            this._fallbackCache = new BiosignalCache(this._getCacheDuration(dataDuration))
         }
         return this._fallbackCache
     }
@@ -780,7 +950,7 @@ export default class EdfProcesser extends SignalFileReader implements SignalData
         }
         this._mutex = new BiosignalMutex()
         Log.debug(`Initiating EDF worker cache.`, SCOPE)
-        this._mutex.initSignalBuffers(cacheProps, this._totalDataLength, buffer, bufferStart)
+        this._mutex.initSignalBuffers(cacheProps, this._getCacheDuration(this._totalDataLength), buffer, bufferStart)
         Log.debug(`EDF loader cache initiation complete.`, SCOPE)
         // Mutex is fully set up.
         this._isMutexReady = true
@@ -844,20 +1014,245 @@ export default class EdfProcesser extends SignalFileReader implements SignalData
         this._dataBlocks = []
         const dataBlockLen = Math.max(Math.floor(this.SETTINGS.app.dataChunkSize/header.dataUnitSize), 1)
         this._maxDataBlocks = Math.floor(this.SETTINGS.app.maxLoadCacheSize/(dataBlockLen*header.dataUnitSize))
-        for (let i=0; i<this._dataUnitCount; i+=dataBlockLen) {
-            const endRecord = Math.min(i + dataBlockLen, header.dataUnitCount)
+        this._addDataBlocks(0, header.dataUnitCount)
+        // Follow a file that is still being recorded.
+        this.setTailMode(edfHeader.live && edfHeader.tail ? edfHeader.tail : null)
+        return true
+    }
+
+    /**
+     * Add data blocks for the given range of data records.
+     * @param startRecord - Index of the first data record (inclusive).
+     * @param endRecord - Index of the last data record (exclusive).
+     */
+    protected _addDataBlocks (startRecord: number, endRecord: number) {
+        const dataBlockLen = Math.max(Math.floor(this.SETTINGS.app.dataChunkSize/this._dataUnitSize), 1)
+        for (let i=startRecord; i<endRecord; i+=dataBlockLen) {
+            const blockEnd = Math.min(i + dataBlockLen, endRecord)
             const startByte = this._dataOffset + i*this._dataUnitSize
-            const endByte = this._dataOffset + endRecord*this._dataUnitSize
+            const endByte = this._dataOffset + blockEnd*this._dataUnitSize
             this._dataBlocks.push({
                 startRecord: i,
                 startTime: i*this._dataUnitDuration,
-                endRecord: endRecord,
-                endTime: endRecord*this._dataUnitDuration,
+                endRecord: blockEnd,
+                endTime: blockEnd*this._dataUnitDuration,
                 startBytePos: startByte,
                 endBytePos: endByte,
                 data: null,
             })
         }
+    }
+
+    /**
+     * Get the duration of signals the signal cache should be able to hold. In tail mode, room is reserved for the
+     * maximum duration of the recording given in the tail options.
+     * @param dataDuration - Duration of the signal data in the file.
+     * @returns Duration of the signal cache in seconds.
+     */
+    protected _getCacheDuration (dataDuration: number) {
+        return Math.max(dataDuration, this._tailOptions?.maxDuration || 0)
+    }
+
+    /**
+     * Select the signals to export and calculate the derived signals.
+     * @param data - Physical signal data for each signal in the header's signal info.
+     * @param channels - Channels to export.
+     * @returns Signal info of the selected signals and properties of all exported signals, or null on error.
+     */
+    protected _getExportSignals (data: Float32Array[], channels: EdfExportChannels) {
+        if (!this._header) {
+            return null
+        }
+        const header = this._header
+        const isDataSignal = (index: number) => header.signalInfo[index] !== undefined &&
+                                                !isAnnotationSignal(header.reserved, header.signalInfo[index])
+        const samplingRate = (index: number) => header.signalInfo[index].sampleCount/header.dataRecordDuration
+        const signalInfo = [] as EdfSignalInfo[]
+        const signals = [] as EdfSignalProperties[]
+        for (let i=0; i<header.signalInfo.length; i++) {
+            const info = header.signalInfo[i]
+            if (!isDataSignal(i)) {
+                // Annotation signals are always kept.
+                signalInfo.push(info)
+                continue
+            }
+            if (channels.include?.length) {
+                if (channels.include.indexOf(i) === -1) {
+                    continue
+                }
+            } else if (channels.derivations?.length || channels.exclude?.includes(i)) {
+                continue
+            }
+            signalInfo.push(info)
+            signals.push({
+                data: data[i],
+                label: info.label,
+                offsetFromBaseline: 0,
+                samplingRate: samplingRate(i),
+                unit: info.physicalUnit,
+                uVperInt16: info.unitsPerBit,
+            })
+        }
+        for (const derivation of channels.derivations || []) {
+            const active = derivation.active
+            if (!isDataSignal(active)) {
+                Log.error(`Cannot derive signal '${derivation.label}', signal #${active} is not a data signal.`, SCOPE)
+                return null
+            }
+            const references = derivation.reference === 'average'
+                               ? header.signalInfo.map((_info, i) => i).filter(
+                                    i => isDataSignal(i) && samplingRate(i) === samplingRate(active)
+                                 )
+                               : derivation.reference
+            for (const ref of references) {
+                if (!isDataSignal(ref) || samplingRate(ref) !== samplingRate(active)) {
+                    Log.error(
+                        `Cannot derive signal '${derivation.label}', reference signal #${ref} is not a data signal ` +
+                        `with the same sampling rate as the active signal.`,
+                    SCOPE)
+                    return null
+                }
+                if (header.signalInfo[ref].physicalUnit !== header.signalInfo[active].physicalUnit) {
+                    Log.warn(
+                        `Units of the active and reference signal #${ref} of '${derivation.label}' do not match.`,
+                    SCOPE)
+                }
+            }
+            const derived = new Float32Array(data[active])
+            if (references.length) {
+                for (let j=0; j<derived.length; j++) {
+                    let reference = 0
+                    for (const ref of references) {
+                        reference += data[ref][j]
+                    }
+                    derived[j] -= reference/references.length
+                }
+            }
+            const info = header.signalInfo[active]
+            signals.push({
+                data: derived,
+                label: derivation.label,
+                offsetFromBaseline: 0,
+                prefiltering: info.prefiltering,
+                samplingRate: samplingRate(active),
+                transducerType: info.transducerType,
+                unit: info.physicalUnit,
+                uVperInt16: info.unitsPerBit,
+            })
+        }
+        if (!signals.length) {
+            Log.error(`Cannot export signals, no data signals were selected.`, SCOPE)
+            return null
+        }
+        return {
+            signalInfo: signalInfo,
+            signals: signals,
+        }
+    }
+
+    /**
+     * Get the current size of the file at the source URL. The size is read from the content length of a HEAD request
+     * or, if the server does not report it, from the content range of a single byte range request.
+     * @returns Size of the file in bytes or null if it could not be determined.
+     */
+    protected async _getFileSize () {
+        try {
+            const head = await fetch(this._url, { cache: 'no-store', method: 'HEAD' })
+            const contentLength = parseInt(head.headers.get('content-length') || '')
+            if (head.ok && contentLength) {
+                return contentLength
+            }
+            const headers = new Headers()
+            headers.set('range', 'bytes=0-0')
+            const response = await fetch(this._url, { cache: 'no-store', headers: headers })
+            const totalSize = parseInt(response.headers.get('content-range')?.split('/')[1] || '')
+            return totalSize || null
+        } catch (e) {
+            Log.error(`Failed to check the size of the file.`, SCOPE, e as Error)
+            return null
+        }
+    }
+
+    /**
+     * Check if the partial last data record of the file should be padded, as set by the repair mode of the decoder.
+     * @returns True if the partial record is padded, false otherwise.
+     */
+    protected _padsPartialRecord () {
+        return this._header?.repairs?.some(r => r.field === 'partialRecord' && r.repaired > 0) || false
+    }
+
+    /**
+     * Read the data records appended to the file since the last check into the signal cache.
+     * @returns Success (true/false).
+     */
+    protected async _readNewRecords () {
+        if (!this._header || !this._cache) {
+            Log.error(`Cannot read new data records, study or signal cache has not been set up.`, SCOPE)
+            return false
+        }
+        const fileSize = await this._getFileSize()
+        if (fileSize === null) {
+            return false
+        }
+        const recordCount = Math.floor((fileSize - this._dataOffset)/this._dataUnitSize)
+        if (recordCount <= this._dataUnitCount) {
+            return true
+        }
+        const prevCount = this._dataUnitCount
+        this._dataUnitCount = recordCount
+        this._header.dataRecordCount = recordCount
+        this._totalDataLength = recordCount*this._dataUnitDuration
+        this._totalRecordingLength += (recordCount - prevCount)*this._dataUnitDuration
+        this._addDataBlocks(prevCount, recordCount)
+        Log.debug(`Recording grew by ${recordCount - prevCount} data records.`, SCOPE)
+        let nextRecord = prevCount
+        while (nextRecord >= 0 && nextRecord < recordCount) {
+            nextRecord = await this.readAndCachePart(nextRecord)
+        }
+        // A full cache is reported with the same value as an error, so check the cache end.
+        const cacheEnd = await this._cache.outputRangeEnd
+        const updated = await this.getSignalUpdatedRange()
+        const isCacheFull = nextRecord === -1 && cacheEnd > 0 && updated.end === cacheEnd
+        if (nextRecord === NUMERIC_ERROR_VALUE && !isCacheFull) {
+            Log.error(`Failed to cache new data records.`, SCOPE)
+            return false
+        }
+        if (this._header.discontinuous) {
+            // Include the data gaps found in the new records.
+            this._totalRecordingLength = this._totalDataLength
+                                         + [...this._dataGaps.values()].reduce((total, gap) => total + gap, 0)
+        }
+        if (this._updateCallback) {
+            this._updateCallback({
+                action: 'cache-signals',
+                dataLength: this._totalDataLength,
+                range: [updated.start, updated.end],
+                recordingLength: this._totalRecordingLength,
+                success: true,
+            })
+        }
+        if (isCacheFull) {
+            Log.warn(`Signal cache is full, new data records cannot be cached.`, SCOPE)
+            return false
+        }
         return true
     }
+
+    /**
+     * Schedule the next file size check in tail mode. Tail mode is stopped if reading new records fails.
+     */
+    protected _scheduleTailPoll () {
+        if (!this._tailOptions) {
+            return
+        }
+        this._tailTimer = setTimeout(async () => {
+            this._tailTimer = null
+            if (!await this._readNewRecords()) {
+                Log.warn(`Stopped following the recording.`, SCOPE)
+                this._tailOptions = null
+                return
+            }
+            this._scheduleTailPoll()
+        }, this._tailOptions.pollInterval || DEFAULT_TAIL_POLL_INTERVAL)
+    }
 }
@@ -8,6 +8,7 @@
 import { GenericBiosignalHeader, GenericFileReader } from '@epicurrents/core'
 import { safeObjectFrom, secondsToTimeString } from '@epicurrents/core/dist/util'
 import {
+    type AnnotationTemplate,
     type ConfigReadSignals,
     type ConfigReadUrl,
     type SignalFileReader,
@@ -15,13 +16,58 @@ import {
     type StudyFileContext,
 } from '@epicurrents/core/dist/types'
 import EdfDecoder from './EdfDecoder'
-import { type EdfHeader, type EdfHeaderSignal } from '#types'
+import {
+    type EdfHeader,
+    type EdfHeaderSignal,
+    type EdfRepairOptions,
+    type EdfTailOptions,
+} from '#types'
 import Log from 'scoped-event-log'
+import { isAnnotationOnly } from '#util'
 
 const SCOPE = 'EdfReader'
 
+/** Annotations of an annotation-only file that have not been paired with a signal file yet. */
+type UnpairedAnnotations = {
+    annotations: AnnotationTemplate[]
+    /** Name of the annotation file. */
+    file: string
+    /** Method to check if the annotations belong to the signal file with the given name. */
+    pairsWith: (signalFile: string) => boolean
+}
+
 export default class EdfReader extends GenericFileReader implements SignalFileReader {
+    /**
+     * Check if an annotation file is paired with a signal file by their file names. The files are paired if their
+     * names are identical apart from the extension and a possible role suffix (such as `-PSG` or `-Hypnogram`). If
+     * both files have a role suffix, the last character before it may also differ, as it identifies the scorer of
+     * the hypnogram in the Sleep-EDF dataset (e.g. `SC4001E0-PSG.edf` and `SC4001EC-Hypnogram.edf`).
+     * @param signalFile - Name of the signal file.
+     * @param annotationFile - Name of the annotation file.
+     * @returns True if the files are paired, false otherwise.
+     */
+    public static IsPairedFileName (signalFile: string, annotationFile: string) {
+        const parseName = (name: string) => {
+            const parts = name.replace(/\.[^.]*$/, '')
+                              .match(/^(.*?)([-_](psg|hypnogram|annotations?|events?|signals?))?$/i) as string[]
+            return { stem: parts[1].toLowerCase(), suffix: parts[2] || '' }
+        }
+        const signal = parseName(signalFile)
+        const annotation = parseName(annotationFile)
+        if (signal.stem === annotation.stem) {
+            return true
+        }
+        return signal.suffix !== '' && annotation.suffix !== '' && signal.stem.length === annotation.stem.length &&
+               signal.stem.slice(0, -1) === annotation.stem.slice(0, -1)
+    }
+
     protected _decoder = new EdfDecoder()
+    /** Options of the repair mode, or null if the header is used as it is. */
+    protected _repairOptions = null as EdfRepairOptions | null
+    /** Options of the tail mode, or null if files that are still being recorded are not followed. */
+    protected _tailOptions = null as EdfTailOptions | null
+    /** Annotations from annotation-only files waiting for their signal file. */
+    protected _unpairedAnnotations = [] as UnpairedAnnotations[]
     protected _useSAB: boolean
 
     constructor (useSAB = false) {
@@ -59,6 +105,53 @@ export default class EdfReader extends GenericFileReader implements SignalFileRe
         }
     }
 
+    /**
+     * Pair the annotations of an annotation-only EDF+ file with a signal file. The annotations are added to the signal
+     * recording when the signal file is (or has been) read.
+     * @param file - The annotation-only file.
+     * @param signalFile - Name of the signal file to pair with (optional, default the signal file of the study).
+     * @returns The annotations of the file or null if it is not an annotation-only file.
+     */
+    async pairAnnotationFile (file: File, signalFile?: string) {
+        const annotations = await this.readAnnotationFile(file)
+        if (!annotations) {
+            Log.error(`Cannot pair ${file.name} with a signal file, it is not an annotation-only file.`, SCOPE)
+            return null
+        }
+        this._unpairedAnnotations.push({
+            annotations: annotations,
+            file: file.name,
+            pairsWith: (name) => signalFile === undefined || name === signalFile,
+        })
+        this._pairAnnotations()
+        return annotations
+    }
+
+    /**
+     * Read all annotations from an annotation-only EDF+ file, such as the hypnogram files of the Sleep-EDF dataset.
+     * As these files are small, the whole file is decoded at once.
+     * @param file - The file to read.
+     * @returns The annotations in the file or null if the file is not an annotation-only file.
+     */
+    async readAnnotationFile (file: File) {
+        try {
+            const decoder = new EdfDecoder(await file.slice(0, 256).arrayBuffer())
+            const mainHeader = decoder.decodeHeader(true)
+            if (!mainHeader?.isPlus || !mainHeader.signalCount) {
+                return null
+            }
+            decoder.appendInput(await file.slice(256, (mainHeader.signalCount + 1)*256).arrayBuffer())
+            const header = decoder.decodeHeader()
+            if (!header || !isAnnotationOnly(header)) {
+                return null
+            }
+            return this._decodeAnnotations(header, await file.arrayBuffer(), file.name)
+        } catch (e: unknown) {
+            Log.error(`Failed to read annotations from ${file.name}.`, SCOPE, e as Error)
+            return null
+        }
+    }
+
     async readFile (source: File | StudyFileContext, config?: ConfigReadUrl) {
         const file = (source as StudyFileContext).file || source as File
         const fileType = file.name.endsWith('.bdf') ? 'bdf' : 'edf'
@@ -76,26 +169,246 @@ export default class EdfReader extends GenericFileReader implements SignalFileRe
             url: config?.url || URL.createObjectURL(file),
         } as StudyContextFile
         try {
-            // Load header part from the EDF file into the study.
-            const mainHeader = file.slice(0, 256)
-            const edfHeader = await this.readHeader(await mainHeader.arrayBuffer())
+            // Load header part from the EDF file.
+            this._decoder.setInput(await file.slice(0, 256).arrayBuffer())
+            const edfHeader = this._decoder.decodeHeader(true)
             if (!edfHeader) {
                 Log.error(`Could not load ${fileDesig} header from the given file.`, SCOPE)
                 return null
             }
-            const fullHeader = file.slice(256, (edfHeader.signalCount + 1)*256)
-            await this.readSignals(await fullHeader.arrayBuffer(), config?.signalReader)
+            this._decoder.appendInput(await file.slice(256, (edfHeader.signalCount + 1)*256).arrayBuffer())
+            const header = this._decoder.decodeHeader()
+            if (!header) {
+                Log.error(`Could not load ${fileDesig} signal info from the given file.`, SCOPE)
+                return null
+            }
+            // Annotation-only files are not read as signal data, but paired with a signal file by file name.
+            if (isAnnotationOnly(header)) {
+                return this._addAnnotationFile(studyFile, header, await file.arrayBuffer())
+            }
+            this._setStudyHeader()
+            this._setStudySignals(config?.signalReader)
+            if (this._repairOptions) {
+                this._repairHeader(file.size)
+            }
+            if (this._decoder.output.header.live) {
+                // Local files are snapshots of the file at the time it was opened, so they cannot be followed.
+                this._readLiveHeader(file.size, false)
+            }
         } catch (e: unknown) {
             Log.error(`${fileDesig} header parsing error:`, SCOPE, e as Error)
             return null
         }
         this._study.files.push(studyFile)
+        this._pairAnnotations()
         return studyFile
     }
 
     readHeader (source: ArrayBuffer) {
         this._decoder.setInput(source)
         this._decoder.decodeHeader(true)
+        return this._setStudyHeader()
+    }
+
+    async readSignals (source: ArrayBuffer, config?: ConfigReadSignals) {
+        this._decoder.appendInput(source)
+        this._decoder.decodeHeader()
+        this._setStudySignals(config)
+    }
+
+    async readUrl (source: string | StudyFileContext, config?: ConfigReadUrl) {
+        const url = (source as StudyFileContext).url || source as string
+        const fileType = config?.name?.endsWith('.bdf') || url.endsWith('.bdf') ? 'bdf' : 'edf'
+        const fileDesig = fileType.toUpperCase()
+        Log.debug(`Loading ${fileDesig} from url ${url}.`, SCOPE)
+        const studyFile = {
+            file: null,
+            format: fileType,
+            mime: config?.mime || null,
+            name: config?.name || '',
+            partial: false,
+            range: [],
+            role: 'data',
+            modality: 'signal',
+            url: config?.url || url,
+        } as StudyContextFile
+        try {
+            // Load header part from the EDF file into the study.
+            const headers = new Headers()
+            headers.set('range', 'bytes=0-255')
+            const mainHeader = await fetch(url, {
+                headers: headers,
+            })
+            this._decoder.setInput(await mainHeader.arrayBuffer())
+            const edfHeader = this._decoder.decodeHeader(true)
+            if (!edfHeader) {
+                Log.error(`Could not load ${fileDesig} header from the given URL.`, SCOPE)
+                return null
+            }
+            // Load full header including signal info.
+            headers.set('range', `bytes=256-${(edfHeader.signalCount + 1)*256 - 1}`)
+            const fullHeader = await fetch(url, {
+                headers: headers,
+            })
+            this._decoder.appendInput(await fullHeader.arrayBuffer())
+            const header = this._decoder.decodeHeader()
+            if (!header) {
+                Log.error(`Could not load ${fileDesig} signal info from the given URL.`, SCOPE)
+                return null
+            }
+            // Annotation-only files are small, so the whole file is loaded at once.
+            if (isAnnotationOnly(header)) {
+                studyFile.name = studyFile.name || url.split(/[?#]/)[0].split('/').pop() || ''
+                const wholeFile = await fetch(url)
+                return this._addAnnotationFile(studyFile, header, await wholeFile.arrayBuffer())
+            }
+            this._setStudyHeader()
+            this._setStudySignals(config?.signalReader)
+            const isLive = this._decoder.output.header.live
+            if (this._repairOptions || isLive) {
+                // The total file size is only available from the content range of the response.
+                const fileSize = parseInt(mainHeader.headers.get('content-range')?.split('/')[1] || '')
+                if (!fileSize) {
+                    Log.warn(`Cannot read ${fileDesig} header, the size of the file is not known.`, SCOPE)
+                } else {
+                    if (this._repairOptions) {
+                        this._repairHeader(fileSize)
+                    }
+                    if (isLive) {
+                        this._readLiveHeader(fileSize, true)
+                    }
+                }
+            }
+        } catch (e: unknown) {
+            Log.error(`${fileDesig} header parsing error:`, SCOPE, e as Error)
+            return null
+        }
+        this._study.files.push(studyFile)
+        this._pairAnnotations()
+        return studyFile
+    }
+
+    /**
+     * Set the repair mode for reading broken or truncated files. In repair mode, the number of data records and the
+     * header record size are recomputed from the file size and the signal layout instead of trusting the header, and
+     * the fixes are recorded in the `repairs` property of the format header (see `EdfDecoder.repairHeader`).
+     * @param options - Repair options, or null to disable the repair mode.
+     */
+    setRepairMode (options: EdfRepairOptions | null) {
+        this._repairOptions = options
+    }
+
+    /**
+     * Set the tail mode for reading files that are still being recorded (files with -1 as the number of data records).
+     * The records written so far are always read, but in tail mode the tail options are also passed in the `tail`
+     * property of the format header, so that the signal processer will follow the file as new records are appended.
+     * Only files read from a URL can be followed, as local files are snapshots of the file at the time it was opened.
+     * @param options - Tail options, or null to disable the tail mode.
+     */
+    setTailMode (options: EdfTailOptions | null) {
+        this._tailOptions = options
+    }
+
+    /**
+     * Add an annotation-only file to the study and pair its annotations with the signal file by file name.
+     * @param studyFile - Study file context of the annotation file.
+     * @param header - Decoded header of the file.
+     * @param source - The whole file.
+     * @returns The study file context or null if the annotations could not be decoded.
+     */
+    protected _addAnnotationFile (studyFile: StudyContextFile, header: EdfHeader, source: ArrayBuffer) {
+        const annotations = this._decodeAnnotations(header, source, studyFile.name)
+        if (!annotations) {
+            return null
+        }
+        studyFile.role = 'meta'
+        this._unpairedAnnotations.push({
+            annotations: annotations,
+            file: studyFile.name,
+            pairsWith: (name) => EdfReader.IsPairedFileName(name, studyFile.name),
+        })
+        this._study.files.push(studyFile)
+        this._pairAnnotations()
+        return studyFile
+    }
+
+    /**
+     * Decode the annotations of a whole annotation-only file.
+     * @param header - Decoded header of the file.
+     * @param source - The whole file.
+     * @param name - Name of the file (for logging).
+     * @returns The decoded annotations or null on failure.
+     */
+    protected _decodeAnnotations (header: EdfHeader, source: ArrayBuffer, name: string) {
+        const decoder = new EdfDecoder()
+        decoder.setInput(source, header.dataFormat)
+        const data = decoder.decodeData(header)
+        if (!data) {
+            Log.error(`Could not decode the annotations in ${name}.`, SCOPE)
+            return null
+        }
+        Log.debug(`Read ${data.annotations.length} annotations from ${name}.`, SCOPE)
+        return data.annotations
+    }
+
+    /**
+     * Add the annotations of unpaired annotation files to the signal recording of the study, if they belong to it.
+     */
+    protected _pairAnnotations () {
+        const signalFile = this._study.files.find(f => f.role === 'data')
+        const meta = this._study.meta as { header?: GenericBiosignalHeader }
+        if (!signalFile || !(meta.header instanceof GenericBiosignalHeader)) {
+            return
+        }
+        for (const unpaired of [...this._unpairedAnnotations]) {
+            if (!unpaired.pairsWith(signalFile.name)) {
+                continue
+            }
+            meta.header.addAnnotations(...unpaired.annotations)
+            this._unpairedAnnotations.splice(this._unpairedAnnotations.indexOf(unpaired), 1)
+            Log.debug(`Paired annotations from ${unpaired.file} with ${signalFile.name}.`, SCOPE)
+        }
+    }
+
+    /**
+     * Count the data records written so far in a file that is still being recorded and update the study metadata.
+     * @param fileSize - Current size of the file in bytes.
+     * @param follow - Can the file be followed in tail mode.
+     */
+    protected _readLiveHeader (fileSize: number, follow: boolean) {
+        const header = this._decoder.output.header
+        if (!header.recordByteSize) {
+            return
+        }
+        header.dataRecordCount = Math.max(Math.floor((fileSize - header.headerRecordBytes)/header.recordByteSize), 0)
+        if (this._tailOptions && follow) {
+            header.tail = { ...this._tailOptions }
+        } else {
+            Log.warn(
+                `File is still being recorded, only the ${header.dataRecordCount} data records written so far ` +
+                `are read.`,
+            SCOPE)
+        }
+        this._updateStudyHeader(header)
+    }
+
+    /**
+     * Repair the decoded header and update the study metadata with the repaired header.
+     * @param fileSize - Size of the whole file in bytes.
+     */
+    protected _repairHeader (fileSize: number) {
+        const header = this._decoder.repairHeader({ ...this._repairOptions, fileSize: fileSize })
+        if (!header?.repairs?.length) {
+            return
+        }
+        this._updateStudyHeader(header)
+    }
+
+    /**
+     * Log the decoded main header and save its metadata in the study.
+     * @returns The metadata header of the study.
+     */
+    protected _setStudyHeader () {
         const edfRecording = this._decoder.output
         const recType = edfRecording.isEdfPlus && edfRecording.isDiscontinuous
                         ? `EDF/BDF+ (discontinuous) file header parsed:`
@@ -135,9 +448,11 @@ export default class EdfReader extends GenericFileReader implements SignalFileRe
         return meta.header
     }
 
-    async readSignals (source: ArrayBuffer, config?: ConfigReadSignals) {
-        this._decoder.appendInput(source)
-        this._decoder.decodeHeader()
+    /**
+     * Save the decoded signal info in the study metadata.
+     * @param config - Signal reader configuration (optional).
+     */
+    protected _setStudySignals (config?: ConfigReadSignals) {
         const fullHeader = this._decoder.output
         // We should not have loaded large files with decoder, so cache the whole signal data.
         const totalRecords = fullHeader.dataUnitCount
@@ -183,45 +498,20 @@ export default class EdfReader extends GenericFileReader implements SignalFileRe
         this._study.modality = 'signal'
     }
 
-    async readUrl (source: string | StudyFileContext, config?: ConfigReadUrl) {
-        const url = (source as StudyFileContext).url || source as string
-        const fileType = config?.name?.endsWith('.bdf') || url.endsWith('.bdf') ? 'bdf' : 'edf'
-        const fileDesig = fileType.toUpperCase()
-        Log.debug(`Loading ${fileDesig} from url ${url}.`, SCOPE)
-        const studyFile = {
-            file: null,
-            format: fileType,
-            mime: config?.mime || null,
-            name: config?.name || '',
-            partial: false,
-            range: [],
-            role: 'data',
-            modality: 'signal',
-            url: config?.url || url,
-        } as StudyContextFile
-        try {
-            // Load header part from the EDF file into the study.
-            const headers = new Headers()
-            headers.set('range', 'bytes=0-255')
-            const mainHeader = await fetch(url, {
-                headers: headers,
-            })
-            const edfHeader = await this.readHeader(await mainHeader.arrayBuffer())
-            if (!edfHeader) {
-                Log.error(`Could not load ${fileDesig} header from the given URL.`, SCOPE)
-                return null
-            }
-            // Load full header including signal info.
-            headers.set('range', `bytes=256-${(edfHeader.signalCount + 1)*256 - 1}`)
-            const fullHeader = await fetch(url, {
-                headers: headers,
-            })
-            await this.readSignals(await fullHeader.arrayBuffer(), config?.signalReader)
-        } catch (e: unknown) {
-            Log.error(`${fileDesig} header parsing error:`, SCOPE, e as Error)
-            return null
+    /**
+     * Update the study metadata with a modified header.
+     * @param header - The modified header.
+     */
+    protected _updateStudyHeader (header: EdfHeader) {
+        const meta = this._study.meta as {
+            channels: EdfHeaderSignal[]
+            header:  GenericBiosignalHeader
+            formatHeader: EdfHeader
         }
-        this._study.files.push(studyFile)
-        return studyFile
+        for (const channel of meta.channels) {
+            channel.sampleCount = channel.samplesPerRecord*header.dataRecordCount
+        }
+        meta.header = EdfDecoder.HeaderToBiosignalHeader(header)
+        meta.formatHeader = header
     }
 }
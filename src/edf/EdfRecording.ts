@@ -12,14 +12,18 @@ import {
     type BiosignalHeaderSignal,
     type SignalDataGapMap,
 } from '@epicurrents/core/dist/types'
-import { type EdfHeader } from '#types'
+import { type EdfHeader, type NodeWritable } from '#types'
 import EdfDecoder from './EdfDecoder'
+import EdfEncoder from './EdfEncoder'
 import Log from 'scoped-event-log'
+import { getStreamWriter, parsePatientId, parseRecordingId } from '#util'
 
 const SCOPE = 'EdfHeader'
 
 export default class EdfRecording extends GenericBiosignalHeader {
     private _header: EdfHeader
+    /** The original header record of the file, used to keep unchanged fields intact when saving. */
+    private _headerRecord: ArrayBuffer | null
     private _physicalSignals = [] as Float32Array[][]
     private _rawSignals: Array<number>[][]
 
@@ -29,10 +33,11 @@ export default class EdfRecording extends GenericBiosignalHeader {
         physicalSignals = [] as Array<number>[][],
         annotations = [] as AnnotationTemplate[],
         dataGaps = new Map() as SignalDataGapMap,
-        fileType = 'edf'
+        fileType = 'edf',
+        headerRecord = null as ArrayBuffer | null
     ) {
         // Calculate record size.
-        const bytesPerSample = 2
+        const bytesPerSample = fileType.startsWith('bdf') ? 3 : 2
         let maxSr = 0
         let dataRecordSize = 0
         const signalProps = [] as BiosignalHeaderSignal[]
@@ -61,6 +66,7 @@ export default class EdfRecording extends GenericBiosignalHeader {
             header.discontinuous, annotations, dataGaps
         )
         this._header = header
+        this._headerRecord = headerRecord
         for (const sigSet of physicalSignals) {
             const records = [] as Float32Array[]
             for (const recSet of sigSet) {
@@ -77,6 +83,12 @@ export default class EdfRecording extends GenericBiosignalHeader {
     get header () {
         return this._header
     }
+    /**
+     * The original header record bytes of the file, if available.
+     */
+    get headerRecord () {
+        return this._headerRecord
+    }
     /**
      * Whether this recording is discontinuous.
      */
@@ -89,6 +101,42 @@ export default class EdfRecording extends GenericBiosignalHeader {
     get isEdfPlus () {
         return this._header.isPlus
     }
+    /**
+     * Structured patient identification of an EDF+ recording, or null if not available.
+     */
+    get patient () {
+        return this._header.patient || null
+    }
+    /**
+     * Patient identification of the EDF header, kept in sync with header updates.
+     */
+    get patientId () {
+        return this._header.patientId
+    }
+    /**
+     * Local recording identification of the EDF header, kept in sync with header updates.
+     */
+    get recordingId () {
+        return this._header.localRecordingId
+    }
+    /**
+     * Structured recording identification of an EDF+ recording, or null if not available.
+     */
+    get recordingInfo () {
+        return this._header.recordingInfo || null
+    }
+    /**
+     * Start date and time of the recording in the EDF header, kept in sync with header updates.
+     */
+    get recordingStartTime () {
+        return this._header.recordingDate
+    }
+    /**
+     * Fixes made to the header by the repair mode of the decoder.
+     */
+    get repairs () {
+        return this._header.repairs || []
+    }
     /**
      * Size of the header record in bytes.
      */
@@ -175,8 +223,7 @@ export default class EdfRecording extends GenericBiosignalHeader {
                 howMany = this._physicalSignals[index].length - recordStart
             }
         }
-        const recordEnd = recordStart + howMany - 1
-        if (recordEnd === recordStart) {
+        if (howMany < 1) {
             Log.debug("No more records to concatenate.", SCOPE)
             return new Float32Array()
         }
@@ -267,6 +314,104 @@ export default class EdfRecording extends GenericBiosignalHeader {
         return EdfDecoder.ParsePrefiltering(this._header.signalInfo[index].prefiltering)
     }
 
+    /**
+    * Write this recording into the given output stream as an EDF/BDF file. See `toArrayBuffer` for details.
+    * @param output - A `WritableStream` or a Node.js writable stream.
+    * @returns Success (true/false).
+    */
+    async save (output: WritableStream<Uint8Array> | NodeWritable) {
+        const buffer = this.toArrayBuffer()
+        if (!buffer) {
+            return false
+        }
+        try {
+            const { close, write } = getStreamWriter(output)
+            await write(new Uint8Array(buffer))
+            await close()
+        } catch (e) {
+            Log.error(`Failed to save recording into the output stream.`, SCOPE, e as Error)
+            return false
+        }
+        return true
+    }
+
+    /**
+    * Set a new label for the signal at the given index.
+    * @param index - Index of the signal.
+    * @param label - New label for the signal.
+    */
+    setSignalLabel (index: number, label: string) {
+        if (index < 0 || index >= this._header.signalInfo.length) {
+            Log.warn(`Signal index ${index} is out of range, cannot set signal label.`, SCOPE)
+            return
+        }
+        this._header.signalInfo[index].label = label
+        if (this.signals[index]) {
+            this.signals[index].label = label
+            this.signals[index].name = label
+        }
+    }
+
+    /**
+    * Serialize this recording back into an EDF/BDF file. Header fields that have not been changed are written
+    * byte-for-byte as they were in the original file, if the original header record is available.
+    *
+    * If the raw (digital) signals have been decoded, they are written as they are without re-quantization.
+    * Otherwise the physical signals are converted back to digital using the original signal ranges and the
+    * annotations and data gaps of this recording are written into the annotation signal(s).
+    * @param annotations - Annotations to write instead of the annotations of this recording (optional). This requires
+    *                      the physical signals, as the raw annotation signals would be written as they are.
+    * @returns The file as an ArrayBuffer or null if an error occurred.
+    */
+    toArrayBuffer (annotations?: AnnotationTemplate[]): ArrayBuffer | null {
+        const signalInfo = this._header.signalInfo
+        const encoder = new EdfEncoder('generic')
+        encoder.setHeader(this._header)
+        encoder.setTemplate(this._headerRecord)
+        if (signalInfo.length && this._rawSignals.length === signalInfo.length) {
+            if (annotations) {
+                Log.error(`Cannot replace annotations when serializing raw signals.`, SCOPE)
+                return null
+            }
+            return encoder.encodeDigital(this._rawSignals)
+        }
+        if (signalInfo.length && this._physicalSignals.length !== signalInfo.length) {
+            Log.error(`Cannot serialize recording, signal data has not been decoded.`, SCOPE)
+            return null
+        }
+        const data = [] as Float32Array[]
+        for (const records of this._physicalSignals) {
+            const signal = new Float32Array(records.reduce((total, record) => total + record.length, 0))
+            let offset = 0
+            for (const record of records) {
+                signal.set(record, offset)
+                offset += record.length
+            }
+            data.push(signal)
+        }
+        encoder.setSignalData(data)
+        encoder.setAnnotations(annotations || this.annotations as AnnotationTemplate[])
+        encoder.setDataGaps(this.dataGaps)
+        return encoder.encode()
+    }
+
+    /**
+    * Update the EDF header of this recording with the given properties. The updated header is used when the
+    * recording is serialized, and the patient ID, recording ID and start time of the generic biosignal header are
+    * read from it as well.
+    * @param properties - Header properties to update.
+    */
+    updateHeader (properties: Partial<EdfHeader>) {
+        Object.assign(this._header, properties)
+        // Keep the structured identifications in sync with the identification fields.
+        if (properties.patientId !== undefined && properties.patient === undefined) {
+            this._header.patient = this._header.isPlus ? parsePatientId(this._header.patientId) : null
+        }
+        if (properties.localRecordingId !== undefined && properties.recordingInfo === undefined) {
+            this._header.recordingInfo = this._header.isPlus ? parseRecordingId(this._header.localRecordingId) : null
+        }
+    }
+
     /**
     * Get the transducer type info for a given signal index.
     * @param index - Index of the signal.
@@ -0,0 +1,243 @@
+/**
+ * Epicurrents EDF text exporter.
+ * @package    epicurrents/edf-reader
+ * @copyright  2024 Sampsa Lohi
+ * @license    Apache-2.0
+ */
+
+import { type SignalCachePart, type SignalDataGapMap } from '@epicurrents/core/dist/types'
+import { type EdfHeader, type EdfTextExportOptions, type NodeWritable } from '#types'
+import type EdfRecording from './EdfRecording'
+import Log from 'scoped-event-log'
+import { getStreamWriter, isAnnotationSignal } from '#util'
+
+const SCOPE = 'EdfTextExporter'
+
+/** Number of rows to write into the output at a time. */
+const ROWS_PER_CHUNK = 1000
+
+/** Signal to export. */
+type ExportSignal = {
+    data: Float32Array
+    label: string
+    samplingRate: number
+    unit: string
+}
+
+/** Output to write the text into. */
+type TextOutput = WritableStream<Uint8Array> | NodeWritable
+
+/**
+ * Format the given date as local date and time with millisecond precision (e.g. 2020-01-31 12:30:00.000).
+ * @param date - Date to format.
+ * @returns The formatted date.
+ */
+const formatLocalTime = (date: Date) => {
+    const pad = (value: number, length = 2) => value.toString().padStart(length, '0')
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+           `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.` +
+           `${pad(date.getMilliseconds(), 3)}`
+}
+
+/**
+ * EdfTextExporter writes physical signals into CSV or TSV text. The signals are taken either from a decoded
+ * `EdfRecording` with `setRecording(recording)` or from a signal part returned by `EdfProcesser.getSignals` with
+ * `setSignalPart(part, header)`.
+ *
+ * The output starts with a row of signal labels and a row of signal units, followed by a row for each sample. The
+ * first column contains the time of the sample, either in seconds from the start of the recording or as local
+ * wall-clock time. Signals with different sampling rates are either written into separate outputs or resampled onto
+ * a common time base.
+ *
+ * The text is written into the output stream in chunks, respecting the back-pressure of the stream, so that the
+ * whole text never has to be kept in memory.
+ */
+export default class EdfTextExporter {
+    /** Gaps in the signal data as <data time, gap duration> in seconds. */
+    protected _dataGaps = new Map() as SignalDataGapMap
+    protected _options: EdfTextExportOptions
+    protected _recordingDate = null as Date | null
+    protected _signals = [] as ExportSignal[]
+    /** Start time of the signal data in recording seconds. */
+    protected _start = 0
+
+    constructor (options = {} as EdfTextExportOptions) {
+        this._options = options
+    }
+
+    /**
+     * Sampling rates of the outputs needed to export the set signals, one for each output.
+     */
+    get outputRates () {
+        const rates = [...new Set(this._signals.map(s => s.samplingRate))].sort((a, b) => b - a)
+        if (this._options.multirate === 'resample' && rates.length) {
+            return [this._options.samplingRate || rates[0]]
+        }
+        return rates
+    }
+
+    /**
+     * Export the set signals into the given output. If the signals have to be split into several outputs (see
+     * `outputRates`), a function returning the output for each sampling rate must be given.
+     * @param output - A `WritableStream`, a Node.js writable stream or a function returning one for a sampling rate.
+     * @returns Success (true/false).
+     */
+    async exportToStream (output: TextOutput | ((samplingRate: number) => TextOutput)) {
+        if (!this._signals.length) {
+            Log.error(`Cannot export signals, no signals have been set.`, SCOPE)
+            return false
+        }
+        if (this._options.time === 'wallclock' && !this._recordingDate) {
+            Log.error(`Cannot export wall-clock time, the recording does not have a start date.`, SCOPE)
+            return false
+        }
+        const rates = this.outputRates
+        if (rates.length > 1 && typeof output !== 'function') {
+            Log.error(
+                `Cannot export signals with ${rates.length} different sampling rates into a single output.`,
+            SCOPE)
+            return false
+        }
+        for (const rate of rates) {
+            const signals = this._options.multirate === 'resample'
+                            ? this._signals
+                            : this._signals.filter(s => s.samplingRate === rate)
+            const target = typeof output === 'function' ? output(rate) : output
+            if (!await this._writeSignals(signals, rate, target)) {
+                return false
+            }
+        }
+        Log.debug(`Exported ${this._signals.length} signals into ${rates.length} outputs.`, SCOPE)
+        return true
+    }
+
+    /**
+     * Set the data signals of a decoded recording to export.
+     * @param recording - Recording with decoded physical signals.
+     */
+    setRecording (recording: EdfRecording) {
+        const header = recording.header
+        this._signals = this._selectSignals(header, (index) => recording.getPhysicalSignalConcatRecords(index))
+        this._dataGaps = recording.dataGaps
+        this._recordingDate = header.recordingDate
+        this._start = 0
+    }
+
+    /**
+     * Set the signals of a signal part to export. The part must contain all the signals of the recording in the order
+     * of the header's signal info, as returned by `EdfProcesser.getSignals` without a channel filter. Data gaps are
+     * expected to be filled in the signal data.
+     * @param part - Signal part to export.
+     * @param header - EDF header of the recording.
+     */
+    setSignalPart (part: SignalCachePart, header: EdfHeader) {
+        this._signals = this._selectSignals(header, (index) => part.signals[index]?.data || null)
+        this._dataGaps = new Map()
+        this._recordingDate = header.recordingDate
+        this._start = part.start
+    }
+
+    /**
+     * Select the signals to export from the given header.
+     * @param header - EDF header of the recording.
+     * @param getData - Method returning the physical data of a signal.
+     * @returns Signals to export.
+     */
+    protected _selectSignals (header: EdfHeader, getData: (index: number) => Float32Array | null) {
+        const channels = this._options.channels
+        const signals = [] as ExportSignal[]
+        for (let i=0; i<header.signalInfo.length; i++) {
+            const info = header.signalInfo[i]
+            if (isAnnotationSignal(header.dataFormat, info)) {
+                continue
+            }
+            // Prioritize include, like the channel filter of EdfProcesser.
+            if (channels?.include?.length) {
+                if (channels.include.indexOf(i) === -1) {
+                    continue
+                }
+            } else if (channels?.exclude?.includes(i)) {
+                continue
+            }
+            signals.push({
+                data: getData(i) || new Float32Array(),
+                label: info.label,
+                samplingRate: info.sampleCount/header.dataRecordDuration,
+                unit: info.physicalUnit,
+            })
+        }
+        return signals
+    }
+
+    /**
+     * Write the given signals into an output at the given sampling rate.
+     * @param signals - Signals to write.
+     * @param samplingRate - Sampling rate of the rows; signals with a different rate are resampled.
+     * @param output - Output stream.
+     * @returns Success (true/false).
+     */
+    protected async _writeSignals (signals: ExportSignal[], samplingRate: number, output: TextOutput) {
+        const delimiter = this._options.format === 'tsv' ? '\t' : ','
+        const precision = this._options.precision || 6
+        const time = this._options.time || 'recording'
+        const quote = (text: string) => {
+            return /["\r\n]/.test(text) || text.includes(delimiter) ? `"${text.replace(/"/g, '""')}"` : text
+        }
+        const rowCount = Math.max(...signals.map(s => Math.floor(s.data.length*samplingRate/s.samplingRate)))
+        const gaps = [...this._dataGaps].sort((a, b) => a[0] - b[0])
+        const labels = signals.map(s => quote(s.label))
+        const units = signals.map(s => quote(s.unit))
+        if (time !== 'none') {
+            labels.unshift('Time')
+            units.unshift(time === 'recording' ? 's' : '')
+        }
+        const encoder = new TextEncoder()
+        const { close, write } = getStreamWriter(output)
+        try {
+            await write(encoder.encode(`${labels.join(delimiter)}\n${units.join(delimiter)}\n`))
+            let nextGap = 0
+            let gapTotal = 0
+            for (let start=0; start<rowCount; start+=ROWS_PER_CHUNK) {
+                let chunk = ''
+                for (let row=start; row<Math.min(start + ROWS_PER_CHUNK, rowCount); row++) {
+                    const dataTime = row/samplingRate
+                    const values = [] as string[]
+                    if (time !== 'none') {
+                        // Add the gaps before this sample to get the recording time.
+                        while (nextGap < gaps.length && gaps[nextGap][0] <= dataTime) {
+                            gapTotal += gaps[nextGap++][1]
+                        }
+                        const recordingTime = this._start + dataTime + gapTotal
+                        values.push(
+                            time === 'recording'
+                            ? parseFloat(recordingTime.toFixed(6)).toString()
+                            : formatLocalTime(
+                                new Date((this._recordingDate as Date).getTime() + recordingTime*1000)
+                              )
+                        )
+                    }
+                    for (const signal of signals) {
+                        // Interpolate linearly between the two nearest samples of the signal.
+                        const position = signal.samplingRate === samplingRate
+                                         ? row : dataTime*signal.samplingRate
+                        const index = Math.floor(position)
+                        if (index >= signal.data.length) {
+                            values.push('')
+                            continue
+                        }
+                        const next = Math.min(index + 1, signal.data.length - 1)
+                        const value = signal.data[index] + (signal.data[next] - signal.data[index])*(position - index)
+                        values.push(parseFloat(value.toPrecision(precision)).toString())
+                    }
+                    chunk += `${values.join(delimiter)}\n`
+                }
+                await write(encoder.encode(chunk))
+            }
+            await close()
+        } catch (e) {
+            Log.error(`Failed to write signals into the output stream.`, SCOPE, e as Error)
+            return false
+        }
+        return true
+    }
+}
@@ -0,0 +1,212 @@
+/**
+ * Epicurrents EDF text importer.
+ * @package    epicurrents/edf-reader
+ * @copyright  2024 Sampsa Lohi
+ * @license    Apache-2.0
+ */
+
+import {
+    type EdfEncodingReport,
+    type EdfHeader,
+    type EdfSignalProperties,
+    type EdfTextImportOptions,
+} from '#types'
+import EdfEncoder from './EdfEncoder'
+import Log from 'scoped-event-log'
+import { detectDelimiter, formatEdfPlusDate, splitDelimitedRow } from '#util'
+
+const SCOPE = 'EdfTextImporter'
+
+/** Maximum number of rows to use when inferring the sampling rate from the time column. */
+const RATE_INFERENCE_ROWS = 1000
+
+/**
+ * EdfTextImporter encodes a table of signal values in delimited text (such as CSV or TSV) into an EDF/EDF+ file.
+ *
+ * The table can start with a row of column labels, optionally followed by a row of units, after which each row
+ * contains the values of a single sample. One of the columns can contain the time of the sample, either in seconds
+ * or as a date and time, from which the sampling rate and the recording start date are inferred if they are not
+ * given in the options. All other columns are encoded as signals.
+ *
+ * The physical ranges of the signals are calculated from the signal data. A report of the resulting resolution of
+ * each signal is available in the `report` property after importing.
+ */
+export default class EdfTextImporter {
+    protected _options: EdfTextImportOptions
+    protected _report = null as EdfEncodingReport | null
+
+    constructor (options = {} as EdfTextImportOptions) {
+        this._options = options
+    }
+
+    /**
+     * Quantization report of the latest import, or null if nothing has been imported yet.
+     */
+    get report () {
+        return this._report
+    }
+
+    /**
+     * Encode the given signal table into an EDF/EDF+ file.
+     * @param text - The signal table as delimited text.
+     * @returns The file as an ArrayBuffer or null if an error occurred.
+     */
+    importText (text: string) {
+        const rows = text.split(/\r?\n/).filter(row => row.trim() && !row.startsWith('#'))
+        if (!rows.length) {
+            Log.error(`Cannot import signal table, the text is empty.`, SCOPE)
+            return null
+        }
+        const delimiter = this._options.delimiter || detectDelimiter(rows[0])
+        const timeColumn = this._options.timeColumn ?? 0
+        const isNumeric = (field: string) => field !== '' && !isNaN(Number(field))
+        const isDataRow = (fields: string[]) => fields.every((field, i) => i === timeColumn || isNumeric(field))
+        let firstRow = splitDelimitedRow(rows[0], delimiter)
+        // Read possible labels and units rows.
+        let labels = null as string[] | null
+        let units = null as string[] | null
+        let dataStart = 0
+        if (!isDataRow(firstRow)) {
+            labels = firstRow
+            dataStart++
+            if (rows.length > 1 && !isDataRow(splitDelimitedRow(rows[1], delimiter))) {
+                units = splitDelimitedRow(rows[1], delimiter)
+                dataStart++
+            }
+            firstRow = splitDelimitedRow(rows[dataStart] || '', delimiter)
+        }
+        const columnCount = firstRow.length
+        const signalColumns = [...Array(columnCount).keys()].filter(i => i !== timeColumn)
+        if (!signalColumns.length || dataStart >= rows.length) {
+            Log.error(`Cannot import signal table, the table does not contain any signal data.`, SCOPE)
+            return null
+        }
+        // Parse the sample values.
+        const data = signalColumns.map(() => new Float32Array(rows.length - dataStart))
+        const times = [] as number[]
+        let missing = 0
+        for (let r=dataStart; r<rows.length; r++) {
+            const fields = splitDelimitedRow(rows[r], delimiter)
+            for (let i=0; i<signalColumns.length; i++) {
+                const value = parseFloat(fields[signalColumns[i]])
+                if (isNaN(value)) {
+                    // Missing values are encoded as zero.
+                    missing++
+                } else {
+                    data[i][r - dataStart] = value
+                }
+            }
+            if (timeColumn >= 0 && times.length < RATE_INFERENCE_ROWS) {
+                const time = fields[timeColumn]
+                times.push(isNumeric(time) ? Number(time) : Date.parse(time)/1000)
+            }
+        }
+        if (missing) {
+            Log.warn(`Signal table is missing ${missing} values, they were replaced with zero.`, SCOPE)
+        }
+        let recordingDate = this._options.header?.recordingDate || null
+        if (!recordingDate && timeColumn >= 0 && !isNumeric(firstRow[timeColumn])) {
+            // Use the wall-clock time of the first sample as the start date.
+            const firstTime = Date.parse(firstRow[timeColumn])
+            recordingDate = isNaN(firstTime) ? null : new Date(firstTime)
+        }
+        const samplingRate = this._options.samplingRate || this._inferSamplingRate(times)
+        if (!samplingRate) {
+            Log.error(`Cannot import signal table, the sampling rate is not set and cannot be inferred.`, SCOPE)
+            return null
+        }
+        const recordingType = this._options.recordingType || 'generic'
+        const dataRecordDuration = this._options.header?.dataRecordDuration ||
+                                   this._getDataRecordDuration(
+                                        samplingRate,
+                                        new EdfEncoder(recordingType).recordingProfile.dataRecordDuration
+                                   )
+        if (!dataRecordDuration) {
+            Log.error(
+                `Cannot import signal table, no suitable data record duration for sampling rate ${samplingRate}.`,
+            SCOPE)
+            return null
+        }
+        const dataFormat = this._options.dataFormat || 'edf+'
+        const isPlus = dataFormat.endsWith('+')
+        const header = Object.assign({
+            dataFormat: dataFormat,
+            dataRecordCount: 0,
+            dataRecordDuration: dataRecordDuration,
+            discontinuous: false,
+            headerRecordBytes: 0,
+            isPlus: isPlus,
+            localRecordingId: isPlus ? `Startdate ${formatEdfPlusDate(recordingDate)} X X X` : '',
+            patientId: isPlus ? 'X X X X' : '',
+            recordByteSize: 0,
+            recordingDate: recordingDate,
+            reserved: '',
+            signalCount: 0,
+            signalInfo: [],
+        }, this._options.header, {
+            dataRecordDuration: dataRecordDuration,
+            recordingDate: recordingDate,
+        }) as EdfHeader
+        const signals = signalColumns.map((column, i) => {
+            return {
+                data: data[i],
+                label: this._options.labels?.[i] || labels?.[column] || `Signal ${i + 1}`,
+                offsetFromBaseline: 0,
+                samplingRate: samplingRate,
+                unit: this._options.units?.[i] ?? units?.[column] ?? '',
+                uVperInt16: 0,
+            } as EdfSignalProperties
+        })
+        const encoder = new EdfEncoder(recordingType)
+        encoder.setHeader(header)
+        encoder.setAutoRange(true)
+        encoder.setSignals(signals)
+        const file = encoder.encode()
+        if (!file) {
+            Log.error(`Failed to encode the imported signal table.`, SCOPE)
+            return null
+        }
+        this._report = encoder.report
+        Log.debug(
+            `Imported ${signals.length} signals of ${data[0].length} samples at ${samplingRate} Hz.`,
+        SCOPE)
+        return file
+    }
+
+    /**
+     * Get a data record duration that contains a whole number of samples at the given sampling rate.
+     * @param samplingRate - Sampling rate of the signals.
+     * @param preferred - Preferred data record duration in seconds.
+     * @returns Data record duration in seconds or zero if no suitable duration was found.
+     */
+    protected _getDataRecordDuration (samplingRate: number, preferred: number) {
+        for (const duration of [preferred, ...Array.from({ length: 60 }, (_v, i) => i + 1)]) {
+            const samples = samplingRate*duration
+            if (Math.abs(samples - Math.round(samples)) < 1e-6 && Math.round(samples) > 0) {
+                return duration
+            }
+        }
+        return 0
+    }
+
+    /**
+     * Infer the sampling rate from the times of the first samples.
+     * @param times - Sample times in seconds.
+     * @returns The sampling rate or zero if it cannot be inferred.
+     */
+    protected _inferSamplingRate (times: number[]) {
+        const intervals = times.slice(1).map((time, i) => time - times[i])
+        if (!intervals.length || intervals.some(interval => !(interval > 0))) {
+            return 0
+        }
+        const median = [...intervals].sort((a, b) => a - b)[Math.floor(intervals.length/2)]
+        let rate = 1/median
+        if (intervals.some(interval => Math.abs(interval - median) > median/2)) {
+            Log.warn(`Sample times in the signal table are not evenly spaced.`, SCOPE)
+        } else {
+            // Use the mean interval to reduce the effect of rounding in the time values.
+            rate = intervals.length/(times[times.length - 1] - times[0])
+        }
+        return Math.abs(rate - Math.round(rate)) < rate*1e-3 ? Math.round(rate) : Math.round(rate*1000)/1000
+    }
+}
@@ -0,0 +1,399 @@
+/**
+ * Epicurrents EDF validator.
+ * @package    epicurrents/edf-reader
+ * @copyright  2024 Sampsa Lohi
+ * @license    Apache-2.0
+ */
+
+import { type EdfValidationIssue, type EdfValidationReport } from '#types'
+import Log from 'scoped-event-log'
+
+const SCOPE = 'EdfValidator'
+
+/** Fields of the general header as [name, byte length]. */
+const HEADER_FIELDS = [
+    ['version', 8],
+    ['patientId', 80],
+    ['localRecordingId', 80],
+    ['startDate', 8],
+    ['startTime', 8],
+    ['headerRecordBytes', 8],
+    ['reserved', 44],
+    ['dataRecordCount', 8],
+    ['dataRecordDuration', 8],
+    ['signalCount', 4],
+] as const
+/** Fields of the signal header as [name, byte length]. Each field is repeated for every signal. */
+const SIGNAL_FIELDS = [
+    ['label', 16],
+    ['transducerType', 80],
+    ['physicalUnit', 8],
+    ['physicalMinimum', 8],
+    ['physicalMaximum', 8],
+    ['digitalMinimum', 8],
+    ['digitalMaximum', 8],
+    ['prefiltering', 80],
+    ['sampleCount', 8],
+    ['reserved', 32],
+] as const
+/** Byte value of the separator that ends the onset of a time-keeping annotation (x14). */
+const TAL_SEPARATOR = 20
+
+/**
+ * EdfValidator checks a file against the EDF and EDF+ specifications, similar to the file checker of EDFbrowser.
+ * Unlike `EdfDecoder`, which tolerates deviations in non-vital fields, the validator lists every issue it finds with
+ * its severity, the concerned field and its byte offset in the file. The checks cover:
+ * - Non-printable characters and padding of the header fields.
+ * - Format of the start date and time fields and validity of the numeric fields.
+ * - Consistency of the header record size with the number of signals.
+ * - Digital and physical ranges of the signals.
+ * - File size compared to the number and size of the data records.
+ * - Presence of the annotation signal in EDF+ files and the time-keeping annotations of each data record.
+ */
+export default class EdfValidator {
+    protected _issues = [] as EdfValidationIssue[]
+
+    /**
+     * Validate the given file.
+     * @param source - The EDF/BDF file as an ArrayBuffer.
+     * @returns A report of the issues found in the file.
+     */
+    validate (source: ArrayBuffer) {
+        this._issues = []
+        const bytes = new Uint8Array(source)
+        if (bytes.length < 256) {
+            this._addIssue('error', 'header', 0, `File is too small to contain a header (${bytes.length} bytes).`)
+            return this._getReport('')
+        }
+        // General header.
+        const isBdf = bytes[0] === 255
+        const fields = {} as { [name: string]: string }
+        const offsets = {} as { [name: string]: number }
+        let offset = 0
+        for (const [name, length] of HEADER_FIELDS) {
+            fields[name] = this._checkField(bytes, offset, length, name, undefined, isBdf && name === 'version')
+            offsets[name] = offset
+            offset += length
+        }
+        const format = isBdf ? 'bdf' : 'edf'
+        if (isBdf ? fields.version.substring(1).trim() !== 'BIOSEMI' : fields.version.trim() !== '0') {
+            this._addIssue('error', 'version', 0, `Version field '${fields.version.trim()}' is not valid.`)
+        }
+        const formatDesig = format.toUpperCase()
+        const reserved = fields.reserved.trim()
+        const isPlus = reserved.startsWith(`${formatDesig}+C`) || reserved.startsWith(`${formatDesig}+D`)
+        const isDiscontinuous = isPlus && reserved.startsWith(`${formatDesig}+D`)
+        if (!isPlus && reserved.startsWith(`${formatDesig}+`)) {
+            this._addIssue(
+                'error', 'reserved', offsets.reserved,
+                `Reserved field '${reserved}' does not mark a continuous or discontinuous ${formatDesig}+ file.`
+            )
+        }
+        const dataFormat = isPlus ? `${format}+` : format
+        if (!/^\d{2}\.\d{2}\.(\d{2}|yy)$/.test(fields.startDate.trim())) {
+            this._addIssue(
+                'error', 'startDate', offsets.startDate,
+                `Start date '${fields.startDate.trim()}' is not in the format dd.mm.yy.`
+            )
+        }
+        if (!/^\d{2}\.\d{2}\.\d{2}$/.test(fields.startTime.trim())) {
+            this._addIssue(
+                'error', 'startTime', offsets.startTime,
+                `Start time '${fields.startTime.trim()}' is not in the format hh.mm.ss.`
+            )
+        }
+        const headerRecordBytes = this._getNumber(fields, 'headerRecordBytes', offsets.headerRecordBytes, true)
+        const dataRecordCount = this._getNumber(fields, 'dataRecordCount', offsets.dataRecordCount, true)
+        const dataRecordDuration = this._getNumber(fields, 'dataRecordDuration', offsets.dataRecordDuration, false)
+        const signalCount = this._getNumber(fields, 'signalCount', offsets.signalCount, true)
+        if (dataRecordDuration !== null && dataRecordDuration < 0) {
+            this._addIssue(
+                'error', 'dataRecordDuration', offsets.dataRecordDuration,
+                `Data record duration cannot be negative.`
+            )
+        }
+        if (signalCount === null || signalCount < 1) {
+            if (signalCount !== null) {
+                this._addIssue('error', 'signalCount', offsets.signalCount, `File does not contain any signals.`)
+            }
+            return this._getReport(dataFormat)
+        }
+        const headerSize = 256*(signalCount + 1)
+        if (headerRecordBytes !== null && headerRecordBytes !== headerSize) {
+            this._addIssue(
+                'error', 'headerRecordBytes', offsets.headerRecordBytes,
+                `Header record size ${headerRecordBytes} does not match the size ${headerSize} of a header with ` +
+                `${signalCount} signals.`
+            )
+        }
+        if (bytes.length < headerSize) {
+            this._addIssue(
+                'error', 'header', bytes.length,
+                `File is too small to contain the header of ${signalCount} signals (${bytes.length} bytes).`
+            )
+            return this._getReport(dataFormat)
+        }
+        // Signal header.
+        const signals = Array.from({ length: signalCount }, () => ({} as { [name: string]: string }))
+        const signalOffsets = Array.from({ length: signalCount }, () => ({} as { [name: string]: number }))
+        offset = 256
+        for (const [name, length] of SIGNAL_FIELDS) {
+            for (let i=0; i<signalCount; i++) {
+                signals[i][name] = this._checkField(bytes, offset, length, name, i)
+                signalOffsets[i][name] = offset
+                offset += length
+            }
+        }
+        const digitalLimit = isBdf ? 8388608 : 32768
+        const annotationLabel = `${formatDesig} Annotations`
+        const sampleCounts = [] as number[]
+        let annotationSignal = -1
+        for (let i=0; i<signalCount; i++) {
+            const physMin = this._getNumber(signals[i], 'physicalMinimum', signalOffsets[i].physicalMinimum, false, i)
+            const physMax = this._getNumber(signals[i], 'physicalMaximum', signalOffsets[i].physicalMaximum, false, i)
+            const digMin = this._getNumber(signals[i], 'digitalMinimum', signalOffsets[i].digitalMinimum, true, i)
+            const digMax = this._getNumber(signals[i], 'digitalMaximum', signalOffsets[i].digitalMaximum, true, i)
+            const sampleCount = this._getNumber(signals[i], 'sampleCount', signalOffsets[i].sampleCount, true, i)
+            sampleCounts.push(sampleCount || 0)
+            if (digMin !== null && digMax !== null && digMin >= digMax) {
+                this._addIssue(
+                    'error', 'digitalMinimum', signalOffsets[i].digitalMinimum,
+                    `Digital minimum ${digMin} is not smaller than digital maximum ${digMax}.`, i
+                )
+            }
+            for (const [name, value] of [['digitalMinimum', digMin], ['digitalMaximum', digMax]] as const) {
+                if (value !== null && (value < -digitalLimit || value >= digitalLimit)) {
+                    this._addIssue(
+                        'error', name, signalOffsets[i][name],
+                        `Digital value ${value} is out of the range of ${formatDesig} samples.`, i
+                    )
+                }
+            }
+            if (physMin !== null && physMax !== null && physMin === physMax) {
+                this._addIssue(
+                    'error', 'physicalMinimum', signalOffsets[i].physicalMinimum,
+                    `Physical minimum and maximum are both ${physMin}.`, i
+                )
+            }
+            if (sampleCount !== null && sampleCount < 1) {
+                this._addIssue(
+                    'error', 'sampleCount', signalOffsets[i].sampleCount,
+                    `Number of samples in a data record must be positive.`, i
+                )
+            }
+            if (isPlus && annotationSignal === -1 && signals[i].label.trim() === annotationLabel) {
+                annotationSignal = i
+            }
+        }
+        if (isPlus && annotationSignal === -1) {
+            this._addIssue(
+                'error', 'label', signalOffsets[0].label,
+                `${formatDesig}+ file does not contain an '${annotationLabel}' signal.`
+            )
+        }
+        // Data records.
+        const bytesPerSample = isBdf ? 3 : 2
+        const recordSize = sampleCounts.reduce((total, count) => total + count*bytesPerSample, 0)
+        if (dataRecordCount === null) {
+            return this._getReport(dataFormat)
+        }
+        if (dataRecordCount === -1) {
+            this._addIssue(
+                'warning', 'dataRecordCount', offsets.dataRecordCount,
+                `Number of data records is unknown (-1), the recording may not have been finished.`
+            )
+        } else if (dataRecordCount < 0) {
+            this._addIssue(
+                'error', 'dataRecordCount', offsets.dataRecordCount,
+                `Number of data records cannot be negative.`
+            )
+        } else {
+            const expectedSize = headerSize + dataRecordCount*recordSize
+            if (bytes.length < expectedSize) {
+                this._addIssue(
+                    'error', 'dataRecordCount', offsets.dataRecordCount,
+                    `File size ${bytes.length} is smaller than the size ${expectedSize} of ${dataRecordCount} data ` +
+                    `records, the file may be truncated.`
+                )
+            } else if (bytes.length > expectedSize) {
+                this._addIssue(
+                    'warning', 'dataRecordCount', offsets.dataRecordCount,
+                    `File contains ${bytes.length - expectedSize} bytes after the last data record.`
+                )
+            }
+        }
+        if (annotationSignal !== -1 && recordSize && dataRecordDuration !== null) {
+            const completeRecords = Math.floor((bytes.length - headerSize)/recordSize)
+            this._checkTimekeeping(
+                bytes,
+                headerSize + sampleCounts.slice(0, annotationSignal).reduce((a, b) => a + b*bytesPerSample, 0),
+                recordSize,
+                dataRecordCount === -1 ? completeRecords : Math.min(dataRecordCount, completeRecords),
+                isDiscontinuous ? 0 : dataRecordDuration,
+                annotationSignal,
+            )
+        }
+        return this._getReport(dataFormat)
+    }
+
+    /**
+     * Add an issue to the list of found issues.
+     * @param severity - Severity of the issue.
+     * @param field - Concerned field.
+     * @param offset - Byte offset of the field.
+     * @param message - Description of the issue.
+     * @param signal - Index of the concerned signal (optional).
+     */
+    protected _addIssue (
+        severity: EdfValidationIssue['severity'],
+        field: string,
+        offset: number,
+        message: string,
+        signal?: number
+    ) {
+        const issue = { field: field, message: message, offset: offset, severity: severity } as EdfValidationIssue
+        if (signal !== undefined) {
+            issue.signal = signal
+        }
+        this._issues.push(issue)
+    }
+
+    /**
+     * Check that a header field only contains printable ASCII characters and is left-aligned.
+     * @param bytes - File bytes.
+     * @param offset - Byte offset of the field.
+     * @param length - Length of the field in bytes.
+     * @param field - Name of the field.
+     * @param signal - Index of the signal (for signal fields).
+     * @param skipFirst - Skip the first byte of the field (BDF identification code).
+     * @returns The field value as a string.
+     */
+    protected _checkField (
+        bytes: Uint8Array,
+        offset: number,
+        length: number,
+        field: string,
+        signal?: number,
+        skipFirst = false
+    ) {
+        let value = ''
+        let invalidAt = -1
+        for (let i=offset; i<offset + length; i++) {
+            if (!(skipFirst && i === offset) && (bytes[i] < 32 || bytes[i] > 126) && invalidAt === -1) {
+                invalidAt = i
+            }
+            value += String.fromCharCode(bytes[i])
+        }
+        if (invalidAt !== -1) {
+            this._addIssue(
+                'error', field, invalidAt,
+                `Field contains a non-printable character (${bytes[invalidAt]}) at position ${invalidAt - offset}.`,
+                signal
+            )
+        } else if (value.trim() && value.startsWith(' ') && !skipFirst) {
+            this._addIssue('warning', field, offset, `Field value is not left-aligned.`, signal)
+        }
+        return value
+    }
+
+    /**
+     * Check the time-keeping annotations that start each data record of an EDF+ file. Checking is stopped at the
+     * first invalid annotation.
+     * @param bytes - File bytes.
+     * @param start - Byte offset of the annotation signal in the first data record.
+     * @param recordSize - Size of a data record in bytes.
+     * @param recordCount - Number of data records to check.
+     * @param recordDuration - Duration of a data record, if the record starts must be continuous (0 otherwise).
+     * @param signal - Index of the annotation signal.
+     */
+    protected _checkTimekeeping (
+        bytes: Uint8Array,
+        start: number,
+        recordSize: number,
+        recordCount: number,
+        recordDuration: number,
+        signal: number
+    ) {
+        let firstStart = 0
+        let prevStart = -Infinity
+        for (let r=0; r<recordCount; r++) {
+            const offset = start + r*recordSize
+            let end = offset
+            while (end < offset + recordSize && bytes[end] !== TAL_SEPARATOR) {
+                end++
+            }
+            const onset = String.fromCharCode(...bytes.subarray(offset, end))
+            if (!/^[+-]\d+(\.\d+)?$/.test(onset) || bytes[end + 1] !== TAL_SEPARATOR) {
+                this._addIssue(
+                    'error', 'TAL', offset,
+                    `Data record ${r} does not start with a valid time-keeping annotation.`, signal
+                )
+                return
+            }
+            const recordStart = parseFloat(onset)
+            if (r === 0) {
+                firstStart = recordStart
+            }
+            if (recordStart <= prevStart) {
+                this._addIssue(
+                    'error', 'TAL', offset,
+                    `Start time ${recordStart} of data record ${r} is not after the start of the previous record.`,
+                    signal
+                )
+                return
+            }
+            if (recordDuration && Math.abs(recordStart - firstStart - r*recordDuration) > 1e-7) {
+                this._addIssue(
+                    'error', 'TAL', offset,
+                    `Start time ${recordStart} of data record ${r} is not continuous in an EDF+C file.`, signal
+                )
+                return
+            }
+            prevStart = recordStart
+        }
+    }
+
+    /**
+     * Parse a numeric header field, adding an issue if the value is not valid.
+     * @param fields - Field values.
+     * @param field - Name of the field.
+     * @param offset - Byte offset of the field.
+     * @param integer - Must the value be an integer.
+     * @param signal - Index of the signal (for signal fields).
+     * @returns The value or null if it is not valid.
+     */
+    protected _getNumber (
+        fields: { [name: string]: string },
+        field: string,
+        offset: number,
+        integer: boolean,
+        signal?: number
+    ) {
+        const value = fields[field].trim()
+        const pattern = integer ? /^[+-]?\d+$/ : /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/
+        if (!pattern.test(value)) {
+            this._addIssue(
+                'error', field, offset,
+                `Field value '${value}' is not a valid ${integer ? 'integer' : 'number'}.`, signal
+            )
+            return null
+        }
+        return parseFloat(value)
+    }
+
+    /**
+     * Get the report of the current validation.
+     * @param dataFormat - Detected data format.
+     * @returns Validation report.
+     */
+    protected _getReport (dataFormat: string) {
+        const issues = [...this._issues].sort((a, b) => a.offset - b.offset)
+        const errors = issues.filter(issue => issue.severity === 'error').length
+        Log.debug(`Validation found ${errors} errors and ${issues.length - errors} warnings.`, SCOPE)
+        return {
+            dataFormat: dataFormat,
+            issues: issues,
+            valid: errors === 0,
+        } as EdfValidationReport
+    }
+}
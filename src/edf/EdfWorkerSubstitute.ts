@@ -15,7 +15,7 @@ import {
     type WorkerMessage,
 } from '@epicurrents/core/dist/types'
 import { Log } from 'scoped-event-log'
-import { type EdfHeader } from '#types'
+import { type EdfAnnotationImportOptions, type EdfExportChannels, type EdfHeader } from '#types'
 
 const SCOPE = 'EdfWorkerSubstitute'
 
@@ -53,6 +53,29 @@ export default class EdfWorkerSubstitute extends ServiceWorkerSubstitute {
                     rn: message.rn,
                 })
             }
+        } else if (action === 'export-excerpt') {
+            const data = validateCommissionProps(
+                message as WorkerMessage['data'] & {
+                    range: number[]
+                },
+                {
+                    range: ['Number', 'Number'],
+                },
+                true,
+                this.returnMessage.bind(this)
+            )
+            if (!data) {
+                return
+            }
+            // Channel selection is not a mandatory property.
+            const channels = message.channels as EdfExportChannels | undefined
+            const file = await this._reader.exportExcerpt(data.range[0], data.range[1], channels)
+            this.returnMessage({
+                action: action,
+                file: file,
+                success: file !== null,
+                rn: message.rn,
+            })
         } else if (action === 'get-signals') {
             // Extract job parameters.
             const data = validateCommissionProps(
@@ -99,6 +122,29 @@ export default class EdfWorkerSubstitute extends ServiceWorkerSubstitute {
                     rn: message.rn,
                 })
             }
+        } else if (action === 'import-annotations') {
+            const data = validateCommissionProps(
+                message as WorkerMessage['data'] & {
+                    text: string
+                },
+                {
+                    text: 'String',
+                },
+                true,
+                this.returnMessage.bind(this)
+            )
+            if (!data) {
+                return
+            }
+            // Import options are not a mandatory property.
+            const options = message.options as EdfAnnotationImportOptions | undefined
+            const annotations = this._reader.importAnnotations(data.text, options)
+            this.returnMessage({
+                action: action,
+                annotations: annotations,
+                success: annotations !== null,
+                rn: message.rn,
+            })
         } else if (action === 'setup-cache') {
             // Duration is not a mandatory property.
             const duration = (message.dataDuration as number) || 0
@@ -1,13 +1,29 @@
+import EdfAnnotationImporter from './edf/EdfAnnotationImporter'
+import EdfAnonymizer from './edf/EdfAnonymizer'
+import EdfBidsGenerator from './edf/EdfBidsGenerator'
+import EdfConverter from './edf/EdfConverter'
 import EdfDecoder from './edf/EdfDecoder'
+import EdfEncoder from './edf/EdfEncoder'
 import EdfProcesser from './edf/EdfProcesser'
 import EdfReader from './edf/EdfReader'
 import EdfRecording from './edf/EdfRecording'
+import EdfTextExporter from './edf/EdfTextExporter'
+import EdfTextImporter from './edf/EdfTextImporter'
+import EdfValidator from './edf/EdfValidator'
 import EdfWorkerSubstitute from './edf/EdfWorkerSubstitute'
 
 export {
+    EdfAnnotationImporter,
+    EdfAnonymizer,
+    EdfBidsGenerator,
+    EdfConverter,
     EdfDecoder,
+    EdfEncoder,
     EdfProcesser,
     EdfReader,
     EdfRecording,
+    EdfTextExporter,
+    EdfTextImporter,
+    EdfValidator,
     EdfWorkerSubstitute,
 }
@@ -7,11 +7,146 @@
 
 import {
     type AnnotationTemplate,
+    type BiosignalFilters,
+    type ConfigChannelFilter,
     type SafeObject,
     type SignalCachePart,
     type SignalDataGapMap,
 } from "@epicurrents/core/dist/types"
 
+/**
+ * Options for importing annotations from a delimited text file.
+ */
+export type EdfAnnotationImportOptions = {
+    /**
+     * Columns containing the annotation properties, either as column names in the header row or as column indices.
+     * By default, the columns of a BIDS `events.tsv` file (`onset`, `duration`, `trial_type` and `channel`) are used
+     * if the file has a header row; otherwise the first three columns are onset, duration and label.
+     */
+    columns?: {
+        /** Column of the channels the annotation applies to, separated by commas or spaces. */
+        channels?: number | string
+        /** Column of the annotation duration in seconds. */
+        duration?: number | string
+        /** Column of the annotation label. */
+        label?: number | string
+        /** Column of the annotation onset in seconds from the start of the recording. */
+        onset?: number | string
+    }
+    /** Column delimiter (default detected from the first row). */
+    delimiter?: string
+}
+
+/**
+ * Report of the changes made by the EdfAnonymizer. The report contains the original, identifying values and must
+ * not be shared along with the anonymized file.
+ */
+export type EdfAnonymizationReport = {
+    /** Annotations that were modified or removed. */
+    annotations: {
+        /** Anonymized text or null if the annotation was removed. */
+        anonymized: string | null
+        original: string
+        /** Start time of the annotation in the anonymized recording. */
+        start: number
+    }[]
+    /** Header fields that were modified. */
+    fields: {
+        anonymized: string
+        /** Name of the header property. */
+        field: string
+        original: string
+    }[]
+}
+
+/**
+ * Options for anonymizing an EDF file.
+ */
+export type EdfAnonymizerOptions = {
+    /**
+     * Rules to apply to annotation texts. For each annotation, the first rule with a matching pattern is applied.
+     */
+    annotationRules?: EdfAnnotationRule[]
+    /** Number of days to shift the recording start date by (default 0). */
+    dateShift?: number
+    /** Keep the local recording identification unchanged (default false). */
+    keepRecordingId?: boolean
+    /** Remove annotations that do not match any of the rules (default false). */
+    removeUnmatched?: boolean
+}
+
+/**
+ * A rule to anonymize annotation texts.
+ */
+export type EdfAnnotationRule = {
+    /** Pattern to match the annotation text against. Strings are matched case-insensitively anywhere in the text. */
+    pattern: RegExp | string
+    /**
+     * Replacement for the matched part of the text, which can include references to capturing groups (e.g. `$1`).
+     * If not set, matching annotations are removed.
+     */
+    replacement?: string
+}
+
+/**
+ * Options for generating BIDS sidecar files.
+ */
+export type EdfBidsOptions = {
+    /** Reference of the EEG channels (default `n/a`). */
+    eegReference?: string
+    /** Frequency of the power line in Hz (default the notch filter frequency of the signals, if present). */
+    powerLineFrequency?: number
+    /** Name of the task (default `rest`). */
+    taskName?: string
+}
+
+/**
+ * Contents of the BIDS sidecar files of an EDF recording.
+ */
+export type EdfBidsSidecars = {
+    /** Contents of the `*_channels.tsv` file. */
+    channels: string
+    /** Contents of the `*_eeg.json` file. */
+    eeg: string
+    /** Contents of the `*_events.tsv` file. */
+    events: string
+}
+
+/**
+ * A signal derived from the signals of a recording when exporting it.
+ */
+export type EdfDerivation = {
+    /** Index of the active signal in the recording. */
+    active: number
+    /** Label of the derived signal. */
+    label: string
+    /**
+     * Indices of the reference signals, whose mean is subtracted from the active signal, or `average` to use the mean
+     * of all data signals with the same sampling rate as the active signal (the active signal itself included). An
+     * empty array copies the active signal.
+     */
+    reference: number[] | 'average'
+}
+
+/**
+ * Report of the quantization of the encoded signals.
+ */
+export type EdfEncodingReport = {
+    /** Total number of samples that were clipped to the digital range in all signals. */
+    clippedSamples: number
+    /** Quantization details of each encoded data signal. */
+    signals: EdfSignalEncodingReport[]
+}
+
+/**
+ * Channels to include in an exported file. Signals are selected with the `include` or `exclude` indices. If
+ * derivations are given, only the derived signals and the signals explicitly listed in `include` are exported.
+ */
+export type EdfExportChannels = ConfigChannelFilter & {
+    /** Signals to derive from the recording signals. */
+    derivations?: EdfDerivation[]
+}
+
 export type EdfHeader = SafeObject & {
     dataFormat: string
     /** Number of data records in the recording. */
@@ -23,16 +158,46 @@ export type EdfHeader = SafeObject & {
     /** How many bytes are occupied by the header record at the beginning of the file. */
     headerRecordBytes: number
     isPlus: boolean
+    /**
+     * The file is still being recorded (the number of data records in the file is -1). The number of data records is
+     * then counted from the size of the file, if it is known.
+     */
+    live?: boolean
     localRecordingId: string
+    /** Structured patient identification of an EDF+ file (null if the field does not follow the EDF+ format). */
+    patient?: EdfPatient | null
     patientId: string
     /** Number of bytes per data record. */
     recordByteSize: number
     recordingDate: null | Date
+    /** Structured recording identification of an EDF+ file (null if the field does not follow the EDF+ format). */
+    recordingInfo?: EdfRecordingInfo | null
+    /** Fixes made to the header by the repair mode of the decoder (optional). */
+    repairs?: EdfHeaderRepair[]
     reserved: string
     /** Number of signals in the file. */
     signalCount: number
     /** EDF-specific signal information parsed from the header record. */
     signalInfo: EdfSignalInfo[],
+    /** Options for following a file that is still being recorded, set by the reader in tail mode (optional). */
+    tail?: EdfTailOptions | null
+}
+
+/**
+ * A fix made to the header of a broken or truncated file by the repair mode of the decoder.
+ */
+export type EdfHeaderRepair = {
+    /**
+     * The repaired header field, or `partialRecord` for a partial last data record. The original and repaired values
+     * of a partial record are its size in bytes before and after the repair (zero if it was dropped).
+     */
+    field: 'dataRecordCount' | 'headerRecordBytes' | 'partialRecord'
+    /** Description of the fix. */
+    message: string
+    /** Original value in the file. */
+    original: number
+    /** Repaired value. */
+    repaired: number
 }
 
 export type EdfHeaderSignal = SafeObject & {
@@ -59,10 +224,87 @@ export type EdfHeaderSignal = SafeObject & {
     transducer: string
 }
 
+/**
+ * Subfields of an EDF+ patient identification. Unknown values are null.
+ */
+export type EdfPatient = {
+    birthdate: Date | null
+    /** Hospital administration code of the patient. */
+    code: string | null
+    /** Additional subfields following the name. */
+    extra: string[]
+    name: string | null
+    sex: 'F' | 'M' | null
+}
+
+/**
+ * Subfields of an EDF+ recording identification. Unknown values are null.
+ */
+export type EdfRecordingInfo = {
+    /** Hospital administration code of the investigation (e.g. EEG number). */
+    adminCode: string | null
+    /** Code of the equipment used for the recording. */
+    equipment: string | null
+    /** Additional subfields following the equipment code. */
+    extra: string[]
+    /** Start date with the four-digit year. */
+    startDate: Date | null
+    /** Code or name of the responsible technician. */
+    technician: string | null
+}
+
+/**
+ * Default properties used by the EdfEncoder for a type of recording.
+ */
+export type EdfRecordingProfile = {
+    /** Recommended duration of a data record in seconds, used if the header does not define it. */
+    dataRecordDuration: number
+    /** Signal type to use for signals whose type cannot be determined (empty string for none). */
+    defaultSignalType: string
+    /** Should the standard EDF+ signal type prefix be added to signal labels that are missing it. */
+    prefixLabels: boolean
+}
+
 /**
  * Types of recordings that can be encoded with the EdfEncoder.
+ * - `ecg`: ECG (Holter) recording.
+ * - `eeg`: Clinical EEG recording.
+ * - `emg`: EMG recording with high sampling rates.
+ * - `generic`: Any recording, no defaults are applied to the signals.
+ * - `psg`: Polysomnography recording.
  */
-export type EdfRecordingType = "eeg"
+export type EdfRecordingType = "ecg" | "eeg" | "emg" | "generic" | "psg"
+
+/**
+ * Options for repairing the header of a broken or truncated file.
+ */
+export type EdfRepairOptions = {
+    /** Size of the whole file in bytes (default the size of the decoder input). */
+    fileSize?: number
+    /**
+     * How to handle a partial last data record (default `drop`):
+     * - `drop`: Drop the partial record.
+     * - `pad`: Pad the partial record with zeroes.
+     */
+    partialRecord?: 'drop' | 'pad'
+}
+
+/**
+ * Quantization details of a single encoded signal.
+ */
+export type EdfSignalEncodingReport = {
+    /** Number of samples outside of the physical range that were clipped to the digital minimum or maximum. */
+    clippedSamples: number
+    label: string
+    /** Maximum value of the physical signal written into the header. */
+    physicalMaximum: number
+    /** Minimum value of the physical signal written into the header. */
+    physicalMinimum: number
+    /** Was the physical range calculated from the signal data. */
+    rangeFromData: boolean
+    /** Resolution of the encoded signal as physical units per bit. */
+    unitsPerBit: number
+}
 
 /**
  * Properties as they are recorded in the EDF header.
@@ -109,11 +351,25 @@ export interface EdfSignalPart extends SignalCachePart {
 export type EdfSignalProperties = {
     /** Actual signal data as Float32Array. */
     data: Float32Array
+    /** Signal label (optional, overridden by the label in the header's signal info if present). */
+    label?: string
     /** Signal offset from baseline in units. */
     offsetFromBaseline: number
+    /**
+     * Filtering that has been applied to the signal (optional), either as a prefiltering field value
+     * (e.g. "HP:0.1Hz LP:75Hz N:50Hz") or as filters to convert into one.
+     */
+    prefiltering?: string | BiosignalFilters
     /** Signal samples per second. */
     samplingRate: number
-    /** Physical unit of the signal. */
+    /** Type of the transducer used to record the signal (optional, e.g. "AgAgCl electrode"). */
+    transducerType?: string
+    /**
+     * Type of the signal (optional, e.g. "eeg", "ecg", "resp"). Used to apply the recording profile defaults and
+     * determined from the label if not set.
+     */
+    type?: string
+    /** Physical unit of the signal (the default unit of the signal type is used if empty). */
     unit: string
     /**
      * How many uVs should a single digit (bit) of Int16 represent.
@@ -122,6 +378,157 @@ export type EdfSignalProperties = {
     uVperInt16: number
 }
 
+/**
+ * Default properties of a signal type, following the EDF+ standard texts.
+ */
+export type EdfSignalTypeDefaults = {
+    /** Standard EDF+ signal type prefix of the label (e.g. "EEG"). */
+    labelPrefix: string
+    /** Default physical unit of the signal. */
+    physicalUnit: string
+    /** Default transducer type of the signal. */
+    transducerType: string
+}
+
+/**
+ * Options for encoding an EDF file into a stream.
+ */
+export type EdfStreamOptions = {
+    /**
+     * Number of bytes to reserve for annotations in each data record (default 120). The size of the annotation
+     * signal cannot be changed after the header has been written.
+     */
+    annotationBytes?: number
+    /**
+     * Callback to patch the header after the output stream has been closed. This is required to update the number of
+     * data records in the header if the output stream does not support writing at a position (e.g. Node.js streams).
+     * @param position - Byte position of the patch in the file.
+     * @param bytes - Bytes to write at the position.
+     */
+    patchHeader?: (position: number, bytes: Uint8Array) => Promise<void> | void
+}
+
+/**
+ * Options for following a file that is still being recorded (tail mode).
+ */
+export type EdfTailOptions = {
+    /**
+     * Duration of the recording to reserve signal cache for, in seconds (default the duration of the data records
+     * written when the file was opened). New data records can only be cached up to this duration. A shared signal
+     * buffer must be allocated large enough to hold the signals of the whole duration.
+     */
+    maxDuration?: number
+    /** Interval between checks of the file size, in milliseconds (default 1000). */
+    pollInterval?: number
+}
+
+/**
+ * Options for exporting signals as text (CSV or TSV).
+ */
+export type EdfTextExportOptions = {
+    /** Indices of the signals to include in or exclude from the export (default all data signals). */
+    channels?: ConfigChannelFilter
+    /** Text format of the output (default `csv`). */
+    format?: 'csv' | 'tsv'
+    /**
+     * How to export signals with different sampling rates (default `split`):
+     * - `resample`: Resample all signals onto a common time base using linear interpolation.
+     * - `split`: Write the signals of each sampling rate into a separate output.
+     */
+    multirate?: 'resample' | 'split'
+    /** Number of significant digits in the signal values (default 6). */
+    precision?: number
+    /** Sampling rate of the common time base when resampling (default the highest sampling rate). */
+    samplingRate?: number
+    /**
+     * Contents of the time column (default `recording`):
+     * - `none`: Do not include a time column.
+     * - `recording`: Time in seconds from the start of the recording.
+     * - `wallclock`: Local date and time of the sample, based on the recording start date.
+     */
+    time?: 'none' | 'recording' | 'wallclock'
+}
+
+/**
+ * Options for importing a signal table from text (CSV or TSV).
+ */
+export type EdfTextImportOptions = {
+    /** Data format of the encoded file (default `edf+`). */
+    dataFormat?: 'bdf' | 'bdf+' | 'edf' | 'edf+'
+    /** Column delimiter (default detected from the first row). */
+    delimiter?: string
+    /** Header properties of the encoded file, such as the patient identification or recording date (optional). */
+    header?: Partial<EdfHeader>
+    /** Labels of the signal columns (default the labels in the header row of the table or `Signal <n>`). */
+    labels?: string[]
+    /** Type of the recording, selecting the encoder profile (default `generic`). */
+    recordingType?: EdfRecordingType
+    /** Sampling rate of the signals (default inferred from the time column). */
+    samplingRate?: number
+    /** Index of the time column or -1 if the table does not have one (default 0). */
+    timeColumn?: number
+    /** Physical units of the signal columns (default the units in the units row of the table, if present). */
+    units?: string[]
+}
+
+/**
+ * A single compliance issue found by the EdfValidator.
+ */
+export type EdfValidationIssue = {
+    /** Name of the header field or data element that the issue concerns (e.g. `digitalMinimum`, `TAL`). */
+    field: string
+    /** Human-readable description of the issue. */
+    message: string
+    /** Byte offset of the field or element in the file. */
+    offset: number
+    /**
+     * Severity of the issue:
+     * - `error`: The file violates the specification and may not be readable by other software.
+     * - `warning`: The file deviates from the specification in a way that most readers tolerate.
+     */
+    severity: 'error' | 'warning'
+    /** Index of the signal that the issue concerns (optional). */
+    signal?: number
+}
+
+/**
+ * Result of validating a file against the EDF and EDF+ specifications.
+ */
+export type EdfValidationReport = {
+    /** Data format detected from the header (e.g. `edf` or `bdf+`). */
+    dataFormat: string
+    /** Compliance issues found in the file, in the order of their byte offset. */
+    issues: EdfValidationIssue[]
+    /** Does the file pass the validation (contains no errors). */
+    valid: boolean
+}
+
+/**
+ * Encoder that can write signal data into a binary file format.
+ */
 export interface FileFormatEncoder {
+    /**
+     * Encode the set header and signals into a file.
+     * @returns The encoded file as an ArrayBuffer or null if an error occurred.
+     */
+    encode (): ArrayBuffer | null
+    /**
+     * Set a new header to use for encoding.
+     * @param properties - The header properties.
+     */
+    setHeader (properties: unknown): void
+    /**
+     * Set the signals to encode.
+     * @param signals - Signal data and properties.
+     */
+    setSignals (signals: unknown[]): void
+}
 
-}
\ No newline at end of file
+/**
+ * The properties of a Node.js writable stream that are needed to stream encoded data into it.
+ */
+export interface NodeWritable {
+    end (callback?: () => void): unknown
+    once (event: 'drain', listener: () => void): unknown
+    write (chunk: Uint8Array, callback?: (error?: Error | null) => void): boolean
+}
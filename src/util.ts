@@ -5,6 +5,11 @@
  * @license    Apache-2.0
  */
 
+import { type EdfHeader, type EdfPatient, type EdfRecordingInfo, type NodeWritable } from '#types'
+
+/** Month abbreviations used in EDF+ dates. */
+const EDF_PLUS_MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC']
+
 /**
  * Check if the given signal is an annotation signal.
  * @param format - Recording format or the reserved field from EDF header.
@@ -12,5 +17,276 @@
  * @returns true/false
  */
 export const isAnnotationSignal = (format: string, channel: { label: string }) => {
-    return format.toLowerCase().startsWith('edf+') && channel.label === 'EDF Annotations'
-}
\ No newline at end of file
+    const fileType = format.toLowerCase()
+    return (fileType.startsWith('edf+') && channel.label === 'EDF Annotations') ||
+           (fileType.startsWith('bdf+') && channel.label === 'BDF Annotations')
+}
+
+/**
+ * Check if the EDF+/BDF+ file described by the given header only contains annotation signals, like the hypnogram files
+ * accompanying the signal files in some public datasets.
+ * @param header - EDF header of the file.
+ * @returns True if the file has at least one signal and all of its signals are annotation signals.
+ */
+export const isAnnotationOnly = (header: EdfHeader) => {
+    return header.isPlus && header.signalInfo.length > 0 &&
+           header.signalInfo.every(info => isAnnotationSignal(header.dataFormat, info))
+}
+
+/**
+ * Detect the column delimiter of delimited text (tab, semicolon or comma) from its first row.
+ * @param row - First row of the text.
+ * @returns The detected delimiter.
+ */
+export const detectDelimiter = (row: string) => {
+    if (row.includes('\t')) {
+        return '\t'
+    }
+    return row.includes(';') && !row.includes(',') ? ';' : ','
+}
+
+/**
+ * Format a date in the EDF+ identification subfield format (e.g. 02-MAY-1951).
+ * @param date - Date to format or null if unknown.
+ * @returns The formatted date or 'X' if the date is unknown.
+ */
+export const formatEdfPlusDate = (date: Date | null) => {
+    if (!date) {
+        return 'X'
+    }
+    return `${date.getDate().toString().padStart(2, '0')}-${EDF_PLUS_MONTHS[date.getMonth()]}-${date.getFullYear()}`
+}
+
+/**
+ * Format the given patient record as an EDF+ patient identification (code, sex, birthdate, name and additional
+ * subfields). Missing values are written as 'X'.
+ * @param patient - Patient record.
+ * @returns The patient identification.
+ */
+export const formatPatientId = (patient: EdfPatient) => {
+    return [
+        toEdfPlusSubfield(patient.code || ''),
+        patient.sex || 'X',
+        formatEdfPlusDate(patient.birthdate),
+        toEdfPlusSubfield(patient.name || ''),
+        ...patient.extra.map(toEdfPlusSubfield),
+    ].join(' ')
+}
+
+/**
+ * Format the given recording information as an EDF+ recording identification (start date, administration code,
+ * technician, equipment and additional subfields). Missing values are written as 'X'.
+ * @param recording - Recording information.
+ * @returns The recording identification.
+ */
+export const formatRecordingId = (recording: EdfRecordingInfo) => {
+    return [
+        'Startdate',
+        formatEdfPlusDate(recording.startDate),
+        toEdfPlusSubfield(recording.adminCode || ''),
+        toEdfPlusSubfield(recording.technician || ''),
+        toEdfPlusSubfield(recording.equipment || ''),
+        ...recording.extra.map(toEdfPlusSubfield),
+    ].join(' ')
+}
+
+/**
+ * Parse an EDF+ date (dd-MMM-yyyy, e.g. 02-AUG-1951).
+ * @param date - Date subfield.
+ * @returns The date or null if the date is unknown ('X') or invalid.
+ */
+export const parseEdfPlusDate = (date: string) => {
+    const parts = date.toUpperCase().match(/^(\d{2})-([A-Z]{3})-(\d{4})$/)
+    if (!parts || !EDF_PLUS_MONTHS.includes(parts[2])) {
+        return null
+    }
+    return new Date(parseInt(parts[3]), EDF_PLUS_MONTHS.indexOf(parts[2]), parseInt(parts[1]))
+}
+
+/**
+ * Parse the subfields of an EDF+ patient identification. Unknown values ('X') are returned as null and underscores
+ * in the patient name are converted back into spaces.
+ * @param patientId - Local patient identification.
+ * @returns The patient record or null if the identification does not follow the EDF+ format.
+ */
+export const parsePatientId = (patientId: string) => {
+    const subfields = patientId.trim().split(/\s+/)
+    if (subfields.length < 4) {
+        return null
+    }
+    const getValue = (subfield: string) => subfield === 'X' ? null : subfield
+    const sex = subfields[1].toUpperCase()
+    return {
+        birthdate: parseEdfPlusDate(subfields[2]),
+        code: getValue(subfields[0]),
+        extra: subfields.slice(4),
+        name: getValue(subfields[3])?.replace(/_/g, ' ') || null,
+        sex: sex === 'F' || sex === 'M' ? sex : null,
+    } as EdfPatient
+}
+
+/**
+ * Parse the subfields of an EDF+ recording identification. Unknown values ('X') are returned as null.
+ * @param recordingId - Local recording identification.
+ * @returns The recording information or null if the identification does not follow the EDF+ format.
+ */
+export const parseRecordingId = (recordingId: string) => {
+    const subfields = recordingId.trim().split(/\s+/)
+    if (subfields.length < 5 || subfields[0] !== 'Startdate') {
+        return null
+    }
+    const getValue = (subfield: string) => subfield === 'X' ? null : subfield
+    return {
+        adminCode: getValue(subfields[2]),
+        equipment: getValue(subfields[4]),
+        extra: subfields.slice(5),
+        startDate: parseEdfPlusDate(subfields[1]),
+        technician: getValue(subfields[3]),
+    } as EdfRecordingInfo
+}
+
+/**
+ * Replace the start date subfield of an EDF+ recording identification with the given date.
+ * Recording identifications that are not in the EDF+ format are returned as they are.
+ * @param recordingId - Local recording identification.
+ * @param date - New start date.
+ * @returns The updated recording identification.
+ */
+export const replaceStartdate = (recordingId: string, date: Date | null) => {
+    return recordingId.replace(/^Startdate \S+/, `Startdate ${formatEdfPlusDate(date)}`)
+}
+
+/**
+ * Convert a free text into a single EDF+ identification subfield.
+ * @param text - Text to convert.
+ * @returns The text with whitespace replaced by underscores or 'X' if the text is empty.
+ */
+export const toEdfPlusSubfield = (text: string) => {
+    return text.trim().replace(/\s+/g, '_') || 'X'
+}
+
+/**
+ * Get methods to write into and close the given output stream. Writes respect the back-pressure of the stream.
+ * @param output - A `WritableStream` or a Node.js writable stream.
+ * @returns Methods to close the stream, write into it and write at a given position (null if not supported).
+ */
+export const getStreamWriter = (output: WritableStream<Uint8Array> | NodeWritable) => {
+    let close: () => Promise<void>
+    let write: (chunk: Uint8Array) => Promise<void>
+    let patch = null as ((position: number, bytes: Uint8Array) => Promise<void>) | null
+    if ('getWriter' in output) {
+        const writer = output.getWriter()
+        close = () => writer.close()
+        write = async (chunk) => {
+            await writer.ready
+            await writer.write(chunk)
+        }
+        // File system streams can write at a given position.
+        if (typeof (output as { seek?: unknown }).seek === 'function') {
+            patch = async (position, bytes) => {
+                await writer.write({ type: 'write', position: position, data: bytes } as unknown as Uint8Array)
+            }
+        }
+    } else {
+        close = () => new Promise<void>((resolve) => {
+            output.end(resolve)
+        })
+        write = (chunk) => new Promise<void>((resolve, reject) => {
+            const flushed = output.write(chunk, (error) => {
+                if (error) {
+                    reject(error)
+                }
+            })
+            // Respect back-pressure to keep memory use bounded.
+            if (flushed) {
+                resolve()
+            } else {
+                output.once('drain', resolve)
+            }
+        })
+    }
+    return { close, patch, write }
+}
+
+/**
+ * Split a row of delimited text into fields, respecting double quotes around fields.
+ * @param row - The row to split.
+ * @param delimiter - Column delimiter.
+ * @returns Fields of the row.
+ */
+export const splitDelimitedRow = (row: string, delimiter: string) => {
+    if (!row.includes('"')) {
+        return row.split(delimiter).map(field => field.trim())
+    }
+    const fields = [] as string[]
+    let field = ''
+    let quoted = false
+    for (let i=0; i<row.length; i++) {
+        const char = row[i]
+        if (char === '"') {
+            if (quoted && row[i + 1] === '"') {
+                // Escaped quote.
+                field += '"'
+                i++
+            } else {
+                quoted = !quoted
+            }
+        } else if (!quoted && row.startsWith(delimiter, i)) {
+            fields.push(field.trim())
+            field = ''
+            i += delimiter.length - 1
+        } else {
+            field += char
+        }
+    }
+    fields.push(field.trim())
+    return fields
+}
+
+/**
+ * Write a timekeeping TAL into the annotation signal of an EDF+/BDF+ data record that was padded with zeroes, so that
+ * the padded record has a valid start time. The start time is read from the timekeeping TAL of the preceding record
+ * when it is given and has one.
+ * @param record - Bytes of the padded data record.
+ * @param header - EDF header of the file.
+ * @param partialBytes - Number of bytes in the record before padding.
+ * @param startTime - Start time of the record in seconds, used if the preceding record has no timekeeping TAL.
+ * @param prevRecord - Bytes of the preceding data record (optional).
+ */
+export const writePaddedTimekeeping = (
+    record: Uint8Array,
+    header: EdfHeader,
+    partialBytes: number,
+    startTime: number,
+    prevRecord?: Uint8Array
+) => {
+    if (!header.isPlus) {
+        return
+    }
+    const bytesPerSample = header.dataFormat.startsWith('bdf') ? 3 : 2
+    const annoSignalLabel = `${header.dataFormat.substring(0, 3)} annotations`
+    let annoOffset = 0
+    let annoBytes = 0
+    for (const sigInfo of header.signalInfo) {
+        if (sigInfo.label.toLowerCase() === annoSignalLabel) {
+            annoBytes = sigInfo.sampleCount*bytesPerSample
+            break
+        }
+        annoOffset += sigInfo.sampleCount*bytesPerSample
+    }
+    if (!annoBytes || annoOffset + annoBytes <= partialBytes) {
+        return
+    }
+    if (prevRecord) {
+        // Read the start time of the preceding record from its timekeeping TAL.
+        const prevTal = prevRecord.subarray(annoOffset, annoOffset + annoBytes)
+        const prevEnd = prevTal.indexOf(20)
+        const prevStart = parseFloat(String.fromCharCode(...prevTal.subarray(0, prevEnd > 0 ? prevEnd : 0)))
+        if (!isNaN(prevStart)) {
+            startTime = prevStart + header.dataRecordDuration
+        }
+    }
+    const tal = Array.from(`+${startTime}\x14\x14\x00`, c => c.charCodeAt(0))
+    record.fill(0, annoOffset, annoOffset + annoBytes)
+    record.set(tal.slice(0, annoBytes), annoOffset)
+}
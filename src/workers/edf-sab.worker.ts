@@ -16,7 +16,7 @@ import {
     type WorkerMessage,
 } from '@epicurrents/core/dist/types'
 import EdfProcesser from '../edf/EdfProcesser'
-import { type EdfHeader } from '#types'
+import { type EdfAnnotationImportOptions, type EdfExportChannels, type EdfHeader } from '#types'
 import { Log } from 'scoped-event-log'
 import { validateCommissionProps } from '@epicurrents/core/dist/util'
 
@@ -56,6 +56,28 @@ onmessage = async (message: WorkerMessage) => {
                 `An error occurred while trying to cache signals, operation was aborted.`,
             SCOPE, e as Error)
         }
+    } else if (action === 'export-excerpt') {
+        const data = validateCommissionProps(
+            message.data as WorkerMessage['data'] & {
+                range: number[]
+            },
+            {
+                range: ['Number', 'Number'],
+            }
+        )
+        if (!data) {
+            return
+        }
+        // Channel selection is not a mandatory property.
+        const channels = message.data.channels as EdfExportChannels | undefined
+        const file = await LOADER.exportExcerpt(data.range[0], data.range[1], channels)
+        if (file) {
+            returnSuccess({
+                file: file,
+            })
+        } else {
+            returnFailure(`Exporting excerpt failed.`)
+        }
     } else if (action === 'get-signals') {
         // The direct get-signals should only be encountered when the requested signals have not been cached yet,
         // so whenever raw signals are requested and very rarely in other cases. Thus no need to use a lot of
@@ -94,6 +116,28 @@ onmessage = async (message: WorkerMessage) => {
         } catch (e) {
             returnFailure(e as string)
         }
+    } else if (action === 'import-annotations') {
+        const data = validateCommissionProps(
+            message.data as WorkerMessage['data'] & {
+                text: string
+            },
+            {
+                text: 'String',
+            }
+        )
+        if (!data) {
+            return
+        }
+        // Import options are not a mandatory property.
+        const options = message.data.options as EdfAnnotationImportOptions | undefined
+        const annotations = LOADER.importAnnotations(data.text, options)
+        if (annotations) {
+            returnSuccess({
+                annotations: annotations,
+            })
+        } else {
+            returnFailure(`Importing annotations failed.`)
+        }
     } else if (action === 'setup-cache') {
         const data = validateCommissionProps(
             message.data as WorkerMessage['data'] & {
@@ -118,6 +162,7 @@ onmessage = async (message: WorkerMessage) => {
             returnFailure(`Mutex setup failed.`)
         }
     } else if (action === 'release-cache') {
+        LOADER.setTailMode(null)
         await LOADER.releaseCache()
         returnSuccess()
     } else if (action === 'setup-worker') {
@@ -146,6 +191,7 @@ onmessage = async (message: WorkerMessage) => {
             returnFailure(`Setting up study failed.`)
         }
     } else if (action === 'shutdown') {
+        LOADER.setTailMode(null)
         await LOADER.releaseCache()
     } else if (action === 'update-settings') {
         const data = validateCommissionProps(
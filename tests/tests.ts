@@ -5,9 +5,85 @@
  * @package    epicurrents/edf-reader
  * @copyright  2023 Sampsa Lohi
  * @license    Apache-2.0
+ * @jest-environment node
  */
 
+import EdfAnnotationImporter from '../src/edf/EdfAnnotationImporter'
+import EdfAnonymizer from '../src/edf/EdfAnonymizer'
+import EdfBidsGenerator from '../src/edf/EdfBidsGenerator'
+import EdfConverter from '../src/edf/EdfConverter'
+import EdfDecoder from '../src/edf/EdfDecoder'
+import EdfEncoder from '../src/edf/EdfEncoder'
+import EdfProcesser from '../src/edf/EdfProcesser'
 import EdfReader from '../src/edf/EdfReader'
+import EdfTextExporter from '../src/edf/EdfTextExporter'
+import EdfTextImporter from '../src/edf/EdfTextImporter'
+import EdfValidator from '../src/edf/EdfValidator'
+import { type AnnotationTemplate, type AppSettings } from '@epicurrents/core/dist/types'
+import { type EdfExportChannels, type EdfHeader, type EdfSignalProperties } from '../src/types'
+
+/** Create a minimal EDF header for encoding tests. */
+const createHeader = (dataFormat = 'edf+') => {
+    return {
+        dataFormat: dataFormat,
+        dataRecordCount: 0,
+        dataRecordDuration: 1,
+        discontinuous: false,
+        headerRecordBytes: 0,
+        isPlus: dataFormat.endsWith('+'),
+        localRecordingId: 'Startdate 01-JAN-2020 X X X',
+        patientId: 'X X X X',
+        recordByteSize: 0,
+        recordingDate: new Date(2020, 0, 1, 12, 30, 0),
+        reserved: '',
+        signalCount: 0,
+        signalInfo: [],
+    } as unknown as EdfHeader
+}
+/** Create a sine wave test signal. */
+const createSignal = (label: string, samplingRate: number, length: number) => {
+    return {
+        data: Float32Array.from({ length: length }, (_v, i) => 100*Math.sin(i/10)),
+        label: label,
+        offsetFromBaseline: 0,
+        samplingRate: samplingRate,
+        unit: 'uV',
+        uVperInt16: 0.01,
+    } as EdfSignalProperties
+}
+
+/**
+ * Serve a file at a mock URL, supporting HEAD and range requests.
+ * @param getFile - Method returning the current contents of the file.
+ */
+const serveFile = (getFile: () => Uint8Array) => {
+    global.fetch = (async (_input: RequestInfo | URL, init?: RequestInit) => {
+        const file = getFile()
+        if (init?.method === 'HEAD') {
+            return new Response(null, { headers: { 'content-length': file.length.toString() } })
+        }
+        const range = new Headers(init?.headers).get('range')?.match(/bytes=(\d+)-(\d+)/)
+        if (!range) {
+            return new Response(file)
+        }
+        const start = parseInt(range[1])
+        const end = Math.min(parseInt(range[2]), file.length - 1)
+        return new Response(file.slice(start, end + 1), {
+            headers: { 'content-range': `bytes ${start}-${end}/${file.length}` },
+            status: 206,
+        })
+    }) as typeof fetch
+}
+/** Set up a signal processer for the file served at a mock URL. */
+const createProcesser = async (file: ArrayBuffer) => {
+    serveFile(() => new Uint8Array(file))
+    const header = new EdfDecoder(file).decodeHeader() as EdfHeader
+    const processer = new EdfProcesser({
+        app: { dataChunkSize: 1_000_000, maxLoadCacheSize: 100_000_000 },
+    } as unknown as AppSettings)
+    await processer.setupStudy(EdfDecoder.HeaderToBiosignalHeader(header), header, 'http://localhost/test.edf')
+    return processer
+}
 
 describe('Epicurrents EDF file loader tests', () => {
     test('Create and instance of file loader', () => {
@@ -15,3 +91,790 @@ describe('Epicurrents EDF file loader tests', () => {
         expect(loader).toBeDefined()
     })
 })
+
+describe('Epicurrents EDF encoder tests', () => {
+    test('Encode an EDF+ file and decode it back', () => {
+        const signals = [createSignal('EEG Fp1', 100, 1000), createSignal('EEG Fp2', 50, 500)]
+        const encoder = new EdfEncoder('eeg')
+        encoder.setHeader(createHeader())
+        encoder.setSignals(signals)
+        const buffer = encoder.encode()
+        expect(buffer).not.toBeNull()
+        const decoder = new EdfDecoder(buffer as ArrayBuffer)
+        const header = decoder.decodeHeader() as EdfHeader
+        expect(header.isPlus).toBe(true)
+        expect(header.dataRecordCount).toBe(10)
+        expect(header.signalCount).toBe(3)
+        expect(header.signalInfo[2].label).toBe('EDF Annotations')
+        expect(header.recordingDate).toEqual(new Date(2020, 0, 1, 12, 30, 0))
+        const data = decoder.decodeData(header)
+        for (let i=0; i<signals.length; i++) {
+            for (let j=0; j<signals[i].data.length; j++) {
+                expect(Math.abs(data!.signals[i][j] - signals[i].data[j])).toBeLessThanOrEqual(0.01)
+            }
+        }
+        // Encoding the decoded header and signals must result in an identical file.
+        const reEncoder = new EdfEncoder('eeg')
+        reEncoder.setHeader(header)
+        reEncoder.setSignals(signals.map((s, i) => ({ ...s, data: new Float32Array(data!.signals[i]) })))
+        expect(new Uint8Array(reEncoder.encode() as ArrayBuffer)).toEqual(new Uint8Array(buffer as ArrayBuffer))
+    })
+    test('Encode a BDF+ file with 24-bit samples', () => {
+        const signal = createSignal('EEG Fp1', 100, 1000)
+        signal.uVperInt16 = 0.0001
+        const encoder = new EdfEncoder('eeg')
+        encoder.setHeader(createHeader('bdf+'))
+        encoder.setSignals([signal])
+        const buffer = encoder.encode() as ArrayBuffer
+        expect(new Uint8Array(buffer)[0]).toBe(255)
+        const decoder = new EdfDecoder(buffer)
+        const header = decoder.decodeHeader() as EdfHeader
+        expect(header.dataFormat).toBe('bdf+')
+        expect(header.signalInfo[1].label).toBe('BDF Annotations')
+        expect(header.signalInfo[0].digitalMaximum).toBe(8388607)
+        expect(header.recordByteSize).toBe(header.signalInfo[0].sampleCount*3 + header.signalInfo[1].sampleCount*3)
+        const data = decoder.decodeData(header)
+        for (let i=0; i<signal.data.length; i++) {
+            expect(Math.abs(data!.signals[0][i] - signal.data[i])).toBeLessThanOrEqual(0.0001)
+        }
+    })
+    test('Write annotations into EDF+ annotation signals', () => {
+        const annotation = {
+            annotator: null,
+            background: false,
+            channels: [],
+            class: 'event',
+            duration: 0,
+            label: '',
+            priority: 0,
+            start: 0,
+            text: '',
+        }
+        const annotations = [
+            { ...annotation, start: 1.5, label: 'Eyes closed' },
+            { ...annotation, start: 1.5, label: 'Photic stimulation' },
+            { ...annotation, start: 4.25, duration: 2, label: 'Seizure' },
+        ]
+        const encoder = new EdfEncoder('eeg')
+        encoder.setHeader(createHeader())
+        encoder.setSignals([createSignal('EEG Fp1', 100, 1000)])
+        encoder.setAnnotations(annotations as AnnotationTemplate[], 2)
+        const decoder = new EdfDecoder(encoder.encode() as ArrayBuffer)
+        const header = decoder.decodeHeader() as EdfHeader
+        expect(header.signalCount).toBe(3)
+        const data = decoder.decodeData(header)
+        expect(data!.annotations.map(a => [a.start, a.duration, a.label])).toEqual([
+            [1.5, 0, 'Eyes closed'],
+            [1.5, 0, 'Photic stimulation'],
+            [4.25, 2, 'Seizure'],
+        ])
+        expect(data!.dataGaps.size).toBe(0)
+    })
+    test('Encode data gaps into an EDF+D file', () => {
+        const encoder = new EdfEncoder('eeg')
+        encoder.setHeader(createHeader())
+        encoder.setSignals([createSignal('EEG Fp1', 100, 1000)])
+        encoder.setDataGaps(new Map([[3, 2.5], [7, 10]]))
+        const decoder = new EdfDecoder(encoder.encode() as ArrayBuffer)
+        const header = decoder.decodeHeader() as EdfHeader
+        expect(header.discontinuous).toBe(true)
+        expect(header.reserved).toBe('EDF+D')
+        const data = decoder.decodeData(header)
+        expect(Array.from(data!.dataGaps.entries())).toEqual([[3, 2.5], [7, 10]])
+    })
+    test('Stream data records and patch the record count', async () => {
+        const chunks = [] as Uint8Array[]
+        const output = {
+            end: (cb?: () => void) => cb?.(),
+            once: () => undefined,
+            write: (chunk: Uint8Array, cb?: (error?: Error) => void) => {
+                chunks.push(chunk.slice())
+                cb?.()
+                return true
+            },
+        }
+        let patch = null as [number, Uint8Array] | null
+        const signal = createSignal('EEG Fp1', 100, 0)
+        const encoder = new EdfEncoder('eeg')
+        encoder.setHeader(createHeader())
+        encoder.setSignals([signal])
+        expect(await encoder.startStream(output, {
+            patchHeader: (position, bytes) => { patch = [position, bytes] },
+        })).toBe(true)
+        const source = createSignal('EEG Fp1', 100, 450).data
+        for (let i=0; i<source.length; i+=150) {
+            await encoder.writeRecords([source.subarray(i, i + 150)])
+        }
+        expect(encoder.streamedRecordCount).toBe(4)
+        expect(await encoder.endStream()).toBe(5)
+        const bytes = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0))
+        let offset = 0
+        for (const chunk of chunks) {
+            bytes.set(chunk, offset)
+            offset += chunk.length
+        }
+        bytes.set(patch![1], patch![0])
+        const decoder = new EdfDecoder(bytes.buffer)
+        const header = decoder.decodeHeader() as EdfHeader
+        expect(header.dataRecordCount).toBe(5)
+        const data = decoder.decodeData(header)
+        expect(Math.abs(data!.signals[0][300] - source[300])).toBeLessThanOrEqual(0.01)
+    })
+    test('Write all buffered data records at the end of the stream', async () => {
+        const chunks = [] as Uint8Array[]
+        const output = {
+            end: (cb?: () => void) => cb?.(),
+            once: () => undefined,
+            write: (chunk: Uint8Array, cb?: (error?: Error) => void) => {
+                chunks.push(chunk.slice())
+                cb?.()
+                return true
+            },
+        }
+        let patch = null as [number, Uint8Array] | null
+        const encoder = new EdfEncoder('eeg')
+        encoder.setHeader(createHeader())
+        encoder.setSignals([createSignal('EEG Fp1', 100, 0), createSignal('EEG Fp2', 100, 0)])
+        await encoder.startStream(output, {
+            patchHeader: (position, bytes) => { patch = [position, bytes] },
+        })
+        const source = createSignal('EEG Fp1', 100, 450).data
+        // The second signal lags behind the first one by more than two data records.
+        await encoder.writeRecords([source.subarray(0, 450), source.subarray(0, 150)])
+        expect(encoder.streamedRecordCount).toBe(1)
+        expect(await encoder.endStream()).toBe(5)
+        const bytes = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0))
+        let offset = 0
+        for (const chunk of chunks) {
+            bytes.set(chunk, offset)
+            offset += chunk.length
+        }
+        bytes.set(patch![1], patch![0])
+        const decoder = new EdfDecoder(bytes.buffer)
+        const header = decoder.decodeHeader() as EdfHeader
+        expect(header.dataRecordCount).toBe(5)
+        const data = decoder.decodeData(header)
+        expect(Math.abs(data!.signals[0][420] - source[420])).toBeLessThanOrEqual(0.01)
+        expect(Math.abs(data!.signals[1][120] - source[120])).toBeLessThanOrEqual(0.01)
+        expect(Math.abs(data!.signals[0][450])).toBeLessThanOrEqual(0.01)
+        expect(Math.abs(data!.signals[1][150])).toBeLessThanOrEqual(0.01)
+    })
+    test('Calculate physical ranges from signal data', () => {
+        const encoder = new EdfEncoder('eeg')
+        encoder.setHeader(createHeader())
+        const signal = createSignal('EEG Fp1', 100, 1000)
+        signal.data = signal.data.map((_v, i) => i%2 ? 100 : -100)
+        encoder.setSignals([signal])
+        encoder.setAutoRange(true, 0.1)
+        const decoder = new EdfDecoder(encoder.encode() as ArrayBuffer)
+        const header = decoder.decodeHeader() as EdfHeader
+        expect(header.signalInfo[0].physicalMinimum).toBe(-120)
+        expect(header.signalInfo[0].physicalMaximum).toBe(120)
+        const report = encoder.report!
+        expect(report.clippedSamples).toBe(0)
+        expect(report.signals[0].rangeFromData).toBe(true)
+        expect(report.signals[0].unitsPerBit).toBe(240/65535)
+    })
+    test('Report clipped samples', () => {
+        const signal = createSignal('EEG Fp1', 100, 1000)
+        signal.uVperInt16 = 0.001
+        const encoder = new EdfEncoder('eeg')
+        encoder.setHeader(createHeader())
+        encoder.setSignals([signal])
+        encoder.encode()
+        const clipped = signal.data.filter(v => Math.abs(v) > 32.768).length
+        expect(encoder.report!.signals[0].clippedSamples).toBe(clipped)
+        expect(encoder.report!.clippedSamples).toBe(clipped)
+    })
+    test('Apply recording profile defaults to signals', () => {
+        const header = createHeader()
+        header.dataRecordDuration = 0
+        const lead = createSignal('II', 250, 2500)
+        lead.unit = ''
+        const encoder = new EdfEncoder('ecg')
+        encoder.setHeader(header)
+        encoder.setSignals([lead, { ...createSignal('Resp chest', 25, 250), type: 'resp' }])
+        const decoder = new EdfDecoder(encoder.encode() as ArrayBuffer)
+        const decoded = decoder.decodeHeader() as EdfHeader
+        expect(decoded.dataRecordDuration).toBe(10)
+        expect(decoded.signalInfo[0].label).toBe('ECG II')
+        expect(decoded.signalInfo[0].physicalUnit).toBe('mV')
+        expect(decoded.signalInfo[0].transducerType).toBe('AgAgCl electrode')
+        expect(decoded.signalInfo[1].label).toBe('Resp chest')
+        expect(decoded.signalInfo[1].transducerType).toBe('Thermistor')
+    })
+    test('Convert signal filters into a prefiltering field', () => {
+        const filters = {
+            bandpass: [],
+            bandreject: [[48, 52], [98, 102]],
+            highpass: 0.1,
+            lowpass: 70,
+            notch: 50,
+        }
+        const prefiltering = EdfEncoder.FormatPrefiltering(filters)
+        expect(prefiltering).toBe('HP:0.1Hz LP:70Hz N:50Hz BS:48-52Hz BS:98-102Hz')
+        expect(EdfDecoder.ParsePrefiltering(prefiltering)).toEqual(filters)
+        expect(EdfEncoder.FormatPrefiltering(filters, 24)).toBe('HP:0.1Hz LP:70Hz N:50Hz')
+    })
+    test('Save a decoded recording back into an identical file', () => {
+        const encoder = new EdfEncoder('eeg')
+        encoder.setHeader(createHeader())
+        encoder.setSignals([createSignal('EEG Fp1', 100, 1000)])
+        const original = new Uint8Array(encoder.encode() as ArrayBuffer)
+        // Use number formatting that the encoder would not produce.
+        const physMinPos = 256 + 2*(16 + 80 + 8)
+        original.set(new TextEncoder().encode('-327.680'), physMinPos)
+        const decoder = new EdfDecoder(original.buffer)
+        const header = decoder.decodeHeader() as EdfHeader
+        decoder.decodeData(header, undefined, -1, 0, undefined, 0, true)
+        const recording = decoder.output
+        expect(new Uint8Array(recording.toArrayBuffer() as ArrayBuffer)).toEqual(original)
+        recording.setSignalLabel(0, 'EEG Fp2')
+        const relabeled = new Uint8Array(recording.toArrayBuffer() as ArrayBuffer)
+        expect(new TextDecoder().decode(relabeled.slice(256, 272)).trim()).toBe('EEG Fp2')
+        expect(new TextDecoder().decode(relabeled.slice(physMinPos, physMinPos + 8))).toBe('-327.680')
+    })
+    test('Anonymize header fields and annotations', () => {
+        const header = createHeader()
+        header.patientId = 'MCH-0234567 F 02-MAY-1951 Haagse_Harry'
+        header.localRecordingId = 'Startdate 02-MAR-2002 EMG561 BK/JOP Sony.'
+        header.recordingDate = new Date(2002, 2, 2, 14, 30)
+        const encoder = new EdfEncoder('eeg')
+        encoder.setHeader(header)
+        encoder.setSignals([createSignal('EEG Fp1', 100, 1000)])
+        encoder.setAnnotations([
+            { start: 1, duration: 0, label: 'Eyes closed' },
+            { start: 2, duration: 0, label: 'Harry talking' },
+            { start: 3, duration: 0, label: 'Called Dr. Smith' },
+        ] as AnnotationTemplate[])
+        const anonymizer = new EdfAnonymizer({
+            annotationRules: [
+                { pattern: 'harry', replacement: 'patient' },
+                { pattern: /dr\. \w+/i },
+            ],
+            dateShift: -10,
+        })
+        const decoder = new EdfDecoder(anonymizer.anonymize(encoder.encode() as ArrayBuffer) as ArrayBuffer)
+        const decoded = decoder.decodeHeader() as EdfHeader
+        expect(decoded.patientId).toBe('X X X X')
+        expect(decoded.localRecordingId).toBe('Startdate 20-FEB-2002 X X X')
+        expect(decoded.recordingDate!.getDate()).toBe(20)
+        expect(decoded.recordingDate!.getHours()).toBe(14)
+        const data = decoder.decodeData(decoded)
+        expect(data!.annotations.map(a => a.label)).toEqual(['Eyes closed', 'patient talking'])
+        const report = anonymizer.report!
+        expect(report.fields.map(f => f.field)).toEqual(['patientId', 'recordingDate', 'localRecordingId'])
+        expect(report.annotations.map(a => a.anonymized)).toEqual(['patient talking', null])
+    })
+    test('Convert a plain EDF file into EDF+C', () => {
+        const header = createHeader('edf')
+        header.patientId = 'John Doe 12345'
+        header.localRecordingId = 'Routine EEG'
+        const encoder = new EdfEncoder('eeg')
+        encoder.setHeader(header)
+        encoder.setSignals([createSignal('EEG Fp1', 100, 1000)])
+        const original = encoder.encode() as ArrayBuffer
+        const converted = new EdfConverter().convertToPlus(original, 'onset\tduration\ttrial_type\n2.5\tn/a\tPhotic')
+        const decoder = new EdfDecoder(converted as ArrayBuffer)
+        const decoded = decoder.decodeHeader() as EdfHeader
+        expect(decoded.reserved).toBe('EDF+C')
+        expect(decoded.patientId).toBe('X X X John_Doe_12345')
+        expect(decoded.localRecordingId).toBe('Startdate 01-JAN-2020 X X X Routine_EEG')
+        expect(decoded.signalInfo.map(s => s.label)).toEqual(['EEG Fp1', 'EDF Annotations'])
+        const data = decoder.decodeData(decoded, undefined, -1, 0, undefined, 0, true)
+        expect(data!.annotations.map(a => [a.start, a.label])).toEqual([[2.5, 'Photic']])
+        const source = new EdfDecoder(original)
+        const sourceData = source.decodeData(source.decodeHeader()!, undefined, -1, 0, undefined, 0, true)
+        expect(data!.signals[0]).toEqual(sourceData!.signals[0])
+    })
+    test('Concatenate EDF files into an EDF+D file', () => {
+        const createFile = (startSecond: number, label = 'EEG Fp1') => {
+            const header = createHeader()
+            header.recordingDate = new Date(2020, 0, 1, 12, 30, startSecond)
+            const encoder = new EdfEncoder('eeg')
+            encoder.setHeader(header)
+            encoder.setSignals([createSignal(label, 100, 500)])
+            encoder.setAnnotations([{ start: 1, duration: 0, label: `At ${startSecond}` }] as AnnotationTemplate[])
+            return encoder.encode() as ArrayBuffer
+        }
+        const converter = new EdfConverter()
+        const decoder = new EdfDecoder(converter.concatenate([createFile(20), createFile(0), createFile(5)])!)
+        const decoded = decoder.decodeHeader() as EdfHeader
+        expect(decoded.reserved).toBe('EDF+D')
+        expect(decoded.dataRecordCount).toBe(15)
+        const data = decoder.decodeData(decoded)
+        expect([...data!.dataGaps]).toEqual([[10, 10]])
+        expect(data!.annotations.map(a => a.start)).toEqual([1, 6, 21])
+        expect(converter.concatenate([createFile(0), createFile(10, 'EEG Fp2')])).toBeNull()
+    })
+    test('Split an EDF+D file into continuous segments', () => {
+        const encoder = new EdfEncoder('eeg')
+        encoder.setHeader(createHeader())
+        encoder.setSignals([createSignal('EEG Fp1', 100, 1000)])
+        encoder.setAnnotations([
+            { start: 1, duration: 0, label: 'First' },
+            { start: 6.5, duration: 0, label: 'Second' },
+        ] as AnnotationTemplate[])
+        encoder.setDataGaps(new Map([[3, 2], [5, 0.5]]))
+        const converter = new EdfConverter()
+        const segments = converter.split(encoder.encode() as ArrayBuffer)!
+        expect(segments.length).toBe(3)
+        const decoder = new EdfDecoder(segments[1])
+        const decoded = decoder.decodeHeader() as EdfHeader
+        expect(decoded.reserved).toBe('EDF+C')
+        expect(decoded.dataRecordCount).toBe(2)
+        expect(decoded.recordingDate!.getSeconds()).toBe(5)
+        expect(decoder.decodeData(decoded)!.annotations.map(a => [a.start, a.label])).toEqual([[1.5, 'Second']])
+        expect(converter.split(encoder.encode() as ArrayBuffer, 1)!.length).toBe(2)
+    })
+    test('Export signals as CSV text', async () => {
+        const encoder = new EdfEncoder('eeg')
+        encoder.setHeader(createHeader())
+        encoder.setSignals([
+            { ...createSignal('EEG Fp1', 4, 8), data: Float32Array.from([0, 1, 2, 3, 4, 5, 6, 7]) },
+            { ...createSignal('Resp, nasal', 2, 4), data: Float32Array.from([0, 10, 20, 30]) },
+        ])
+        encoder.setDataGaps(new Map([[1, 0.5]]))
+        const decoder = new EdfDecoder(encoder.encode() as ArrayBuffer)
+        decoder.decodeData(decoder.decodeHeader() as EdfHeader)
+        const texts = new Map<number, string>()
+        const createOutput = (samplingRate: number) => {
+            texts.set(samplingRate, '')
+            return {
+                end: (cb?: () => void) => cb?.(),
+                once: () => undefined,
+                write: (chunk: Uint8Array, cb?: (error?: Error) => void) => {
+                    texts.set(samplingRate, texts.get(samplingRate) + new TextDecoder().decode(chunk))
+                    cb?.()
+                    return true
+                },
+            }
+        }
+        const exporter = new EdfTextExporter({ multirate: 'resample' })
+        exporter.setRecording(decoder.output)
+        expect(await exporter.exportToStream(createOutput)).toBe(true)
+        const rows = texts.get(4)!.trim().split('\n')
+        expect(rows.slice(0, 2)).toEqual(['Time,EEG Fp1,"Resp, nasal"', 's,uV,uV'])
+        expect(rows[3]).toBe('0.25,1,5')
+        expect(rows[6]).toBe('1.5,4,20')
+        const splitExporter = new EdfTextExporter({ channels: { include: [1] }, format: 'tsv', time: 'none' })
+        splitExporter.setRecording(decoder.output)
+        expect(await splitExporter.exportToStream(createOutput)).toBe(true)
+        expect(texts.get(2)!.split('\n').slice(0, 3)).toEqual(['Resp, nasal', 'uV', '0'])
+    })
+    test('Import a CSV signal table into EDF+', () => {
+        const rows = ['Time,EEG Fp1,"Resp, nasal"', 's,uV,mV']
+        for (let i=0; i<500; i++) {
+            rows.push(`${(i/250).toFixed(3)},${Math.round(100*Math.sin(i/10))},${i%50}`)
+        }
+        const importer = new EdfTextImporter()
+        const decoder = new EdfDecoder(importer.importText(rows.join('\n'))!)
+        const decoded = decoder.decodeHeader() as EdfHeader
+        expect(decoded.dataRecordCount).toBe(2)
+        expect(decoded.signalInfo.slice(0, 2).map(s => [s.label, s.physicalUnit, s.sampleCount])).toEqual([
+            ['EEG Fp1', 'uV', 250], ['Resp, nasal', 'mV', 250],
+        ])
+        expect(importer.report!.signals.every(s => s.rangeFromData)).toBe(true)
+        const data = decoder.decodeData(decoded)
+        expect(Math.abs(data!.signals[1][49] - 49)).toBeLessThan(0.01)
+    })
+    test('Generate BIDS sidecars from an EDF+ file', () => {
+        const encoder = new EdfEncoder('eeg')
+        encoder.setHeader(createHeader())
+        encoder.setSignals([
+            { ...createSignal('EEG Fp1', 200, 1000), prefiltering: 'HP:0.5Hz LP:70Hz N:50Hz' },
+            { ...createSignal('EEG Fp2', 200, 1000), prefiltering: 'HP:0.5Hz LP:70Hz N:50Hz' },
+            { ...createSignal('ECG', 100, 500), unit: 'mV' },
+            createSignal('Resp nasal', 10, 50),
+        ])
+        encoder.setAnnotations([{ start: 2, duration: 1.5, label: 'Eyes\tclosed' }] as AnnotationTemplate[])
+        const sidecars = new EdfBidsGenerator({ taskName: 'sleep' }).generateFromFile(encoder.encode() as ArrayBuffer)!
+        const eeg = JSON.parse(sidecars.eeg)
+        expect(eeg.TaskName).toBe('sleep')
+        expect(eeg.SamplingFrequency).toBe(200)
+        expect(eeg.PowerLineFrequency).toBe(50)
+        expect(eeg.RecordingDuration).toBe(5)
+        expect([eeg.EEGChannelCount, eeg.ECGChannelCount, eeg.MiscChannelCount]).toEqual([2, 1, 1])
+        const channels = sidecars.channels.trim().split('\n').map(row => row.split('\t'))
+        expect(channels[1]).toEqual(['EEG Fp1', 'EEG', 'µV', '200', '0.5', '70', '50'])
+        expect(channels[3]).toEqual(['ECG', 'ECG', 'mV', '100', 'n/a', 'n/a', 'n/a'])
+        expect(channels[4].slice(0, 2)).toEqual(['Resp nasal', 'RESP'])
+        expect(sidecars.events).toBe('onset\tduration\ttrial_type\n2\t1.5\tEyes closed\n')
+    })
+    test('Recognize EEG signals labeled with electrode names in BIDS sidecars', () => {
+        const header = createHeader()
+        header.signalInfo = ['Fp1-F7', 'C3', 'O2-Ref', 'T10:M1', 'Pleth', 'Light'].map(label => ({
+            label: label, physicalUnit: 'uV', prefiltering: '', sampleCount: 100,
+        })) as EdfHeader['signalInfo']
+        const sidecars = new EdfBidsGenerator().generate(header)
+        const channels = sidecars.channels.trim().split('\n').slice(1).map(row => row.split('\t')[1])
+        expect(channels).toEqual(['EEG', 'EEG', 'EEG', 'EEG', 'PPG', 'MISC'])
+        expect(JSON.parse(sidecars.eeg).EEGChannelCount).toBe(4)
+    })
+    test('Import annotations from a BIDS events file and a headerless CSV file', () => {
+        const events = new EdfAnnotationImporter().parse(
+            'onset\tduration\ttrial_type\tchannel\n1.5\tn/a\tSpike\tFp1,F3\n4\t2\tArtifact\tn/a\n'
+        )
+        expect(events.map(a => [a.start, a.duration, a.label, a.channels])).toEqual([
+            [1.5, 0, 'Spike', ['Fp1', 'F3']], [4, 2, 'Artifact', []],
+        ])
+        const rows = new EdfAnnotationImporter().parse('12.5,0,Eyes closed\n20,,"Photic, 10 Hz"\n')
+        expect(rows.map(a => [a.start, a.duration, a.label])).toEqual([
+            [12.5, 0, 'Eyes closed'], [20, 0, 'Photic, 10 Hz'],
+        ])
+    })
+    test('Read and pair an annotation-only EDF+ file', async () => {
+        const encoder = new EdfEncoder('eeg')
+        encoder.setHeader(createHeader())
+        encoder.setSignals([])
+        encoder.setDataGaps(new Map([[0, 30]]))
+        encoder.setAnnotations([
+            { start: 0, duration: 30, label: 'Sleep stage W' },
+            { start: 30, duration: 60, label: 'Sleep stage 1' },
+        ] as AnnotationTemplate[])
+        const file = new File([encoder.encode() as ArrayBuffer], 'SC4001EC-Hypnogram.edf')
+        const annotations = await new EdfReader().readAnnotationFile(file)
+        expect(annotations!.map(a => [a.start, a.duration, a.label])).toEqual([
+            [0, 30, 'Sleep stage W'], [30, 60, 'Sleep stage 1'],
+        ])
+        expect(EdfReader.IsPairedFileName('SC4001E0-PSG.edf', 'SC4001EC-Hypnogram.edf')).toBe(true)
+        expect(EdfReader.IsPairedFileName('SC4002E0-PSG.edf', 'SC4001EC-Hypnogram.edf')).toBe(false)
+        expect(EdfReader.IsPairedFileName('night1.edf', 'night1_annotations.edf')).toBe(true)
+        expect(EdfReader.IsPairedFileName('night1.edf', 'night2.edf')).toBe(false)
+    })
+    test('Parse and format EDF+ patient identification subfields', () => {
+        const encoder = new EdfEncoder('eeg')
+        encoder.setHeader({
+            ...createHeader(),
+            patient: {
+                birthdate: new Date(1951, 7, 2),
+                code: 'MCH-0234567',
+                extra: ['Other_info'],
+                name: 'Haagse Harry',
+                sex: 'F',
+            },
+            patientId: '',
+        } as EdfHeader)
+        encoder.setSignals([createSignal('EEG Fp1', 100, 100)])
+        const decoder = new EdfDecoder(encoder.encode() as ArrayBuffer)
+        const header = decoder.decodeHeader() as EdfHeader
+        expect(header.patientId).toBe('MCH-0234567 F 02-AUG-1951 Haagse_Harry Other_info')
+        expect(decoder.output.patient).toEqual({
+            birthdate: new Date(1951, 7, 2), code: 'MCH-0234567', extra: ['Other_info'], name: 'Haagse Harry', sex: 'F',
+        })
+        decoder.output.updateHeader({ patientId: 'X X X X' })
+        expect(decoder.output.patient).toEqual({ birthdate: null, code: null, extra: [], name: null, sex: null })
+        expect(decoder.output.patientId).toBe('X X X X')
+        decoder.output.updateHeader({ localRecordingId: 'Startdate X X X X', recordingDate: new Date(2021, 0, 1) })
+        expect(decoder.output.recordingId).toBe('Startdate X X X X')
+        expect(decoder.output.recordingStartTime).toEqual(new Date(2021, 0, 1))
+    })
+    test('Parse EDF+ recording identification subfields with a four-digit start year', () => {
+        const startDate = new Date(2090, 2, 5, 12, 30, 0)
+        const encoder = new EdfEncoder('eeg')
+        encoder.setHeader({
+            ...createHeader(),
+            localRecordingId: '',
+            recordingDate: startDate,
+            recordingInfo: {
+                adminCode: 'EEG-1234/2090',
+                equipment: 'Telemetry03',
+                extra: [],
+                startDate: new Date(2090, 2, 5),
+                technician: 'NN',
+            },
+        } as EdfHeader)
+        encoder.setSignals([createSignal('EEG Fp1', 100, 100)])
+        const decoder = new EdfDecoder(encoder.encode() as ArrayBuffer)
+        const header = decoder.decodeHeader() as EdfHeader
+        expect(header.localRecordingId).toBe('Startdate 05-MAR-2090 EEG-1234/2090 NN Telemetry03')
+        expect(header.recordingDate).toEqual(startDate)
+        expect(decoder.output.recordingInfo).toEqual({
+            adminCode: 'EEG-1234/2090', equipment: 'Telemetry03', extra: [], startDate: new Date(2090, 2, 5),
+            technician: 'NN',
+        })
+    })
+    test('Parse a startdate field with an unknown year', () => {
+        const encoder = new EdfEncoder('eeg')
+        encoder.setHeader({
+            ...createHeader(),
+            localRecordingId: '',
+            recordingDate: new Date(2090, 2, 5, 12, 30, 0),
+            recordingInfo: {
+                adminCode: 'EEG-1234/2090',
+                equipment: 'Telemetry03',
+                extra: [],
+                startDate: null,
+                technician: 'NN',
+            },
+        } as EdfHeader)
+        encoder.setSignals([createSignal('EEG Fp1', 100, 100)])
+        const file = encoder.encode() as ArrayBuffer
+        expect(new TextDecoder().decode(new Uint8Array(file, 168, 8))).toBe('05.03.yy')
+        const header = new EdfDecoder(file).decodeHeader() as EdfHeader
+        expect(header.localRecordingId).toBe('Startdate X EEG-1234/2090 NN Telemetry03')
+        expect(header.recordingDate).toEqual(new Date(2085, 2, 5, 12, 30, 0))
+    })
+    test('Validate EDF+ files against the specification', () => {
+        const encoder = new EdfEncoder('eeg')
+        encoder.setHeader(createHeader())
+        encoder.setSignals([createSignal('EEG Fp1', 100, 300), createSignal('EEG Fp2', 100, 300)])
+        const file = encoder.encode() as ArrayBuffer
+        const validator = new EdfValidator()
+        expect(validator.validate(file)).toEqual({ dataFormat: 'edf+', issues: [], valid: true })
+        // Corrupt the header and the data records.
+        const header = new EdfDecoder(file).decodeHeader() as EdfHeader
+        const bytes = new Uint8Array(file.slice(0, file.byteLength - 10))
+        const writeAscii = (offset: number, text: string) => {
+            bytes.set(Array.from(text, c => c.charCodeAt(0)), offset)
+        }
+        writeAscii(257, '\t')
+        // Digital minimum of the second signal.
+        writeAscii(256 + header.signalCount*(16 + 80 + 8 + 8 + 8) + 8, '32767   ')
+        // Repeat the start time of the first data record in the second one.
+        writeAscii(header.headerRecordBytes + header.recordByteSize + 2*(100 + 100), '+0')
+        const report = validator.validate(bytes.buffer)
+        expect(report.valid).toBe(false)
+        expect(report.issues.map(i => [i.field, i.signal])).toEqual([
+            ['dataRecordCount', undefined],
+            ['label', 0],
+            ['digitalMinimum', 1],
+            ['TAL', 2],
+        ])
+    })
+    test('Repair truncated EDF files', () => {
+        const encoder = new EdfEncoder('eeg')
+        encoder.setHeader(createHeader())
+        encoder.setSignals([createSignal('EEG Fp1', 100, 300)])
+        const file = encoder.encode() as ArrayBuffer
+        // Truncate the last data record and corrupt the data record count.
+        const bytes = new Uint8Array(file.slice(0, file.byteLength - 10))
+        bytes.set(Array.from('99      ', c => c.charCodeAt(0)), 236)
+        const decoder = new EdfDecoder(bytes.buffer)
+        decoder.decodeHeader()
+        const header = decoder.repairHeader({ fileSize: bytes.byteLength }) as EdfHeader
+        expect(header.dataRecordCount).toBe(2)
+        expect(header.repairs?.map(r => [r.field, r.original, r.repaired])).toEqual([
+            ['partialRecord', header.recordByteSize - 10, 0],
+            ['dataRecordCount', 99, 2],
+        ])
+        const converter = new EdfConverter()
+        const repaired = new EdfDecoder(converter.repair(bytes.buffer) as ArrayBuffer)
+        expect(repaired.decodeHeader()?.dataRecordCount).toBe(2)
+        const padded = new EdfDecoder(converter.repair(bytes.buffer, { partialRecord: 'pad' }) as ArrayBuffer)
+        expect(padded.decodeHeader()?.dataRecordCount).toBe(3)
+        expect(new EdfValidator().validate(
+            converter.repair(bytes.buffer, { partialRecord: 'pad' }) as ArrayBuffer
+        ).valid).toBe(true)
+    })
+    test('Count the data records of a file that is still being recorded', async () => {
+        const chunks = [] as Uint8Array[]
+        const output = {
+            end: (cb?: () => void) => cb?.(),
+            once: () => undefined,
+            write: (chunk: Uint8Array, cb?: (error?: Error) => void) => {
+                chunks.push(chunk.slice())
+                cb?.()
+                return true
+            },
+        }
+        const encoder = new EdfEncoder('eeg')
+        encoder.setHeader(createHeader())
+        encoder.setSignals([createSignal('EEG Fp1', 100, 0)])
+        await encoder.startStream(output)
+        await encoder.writeRecords([createSignal('EEG Fp1', 100, 350).data])
+        // The stream is not closed, so the header still has -1 as the number of data records.
+        const bytes = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0))
+        let offset = 0
+        for (const chunk of chunks) {
+            bytes.set(chunk, offset)
+            offset += chunk.length
+        }
+        const headerOnly = new EdfDecoder(bytes.slice(0, 512).buffer).decodeHeader() as EdfHeader
+        expect(headerOnly.live).toBe(true)
+        expect(headerOnly.dataRecordCount).toBe(0)
+        // Leave a partial data record at the end of the file.
+        const decoder = new EdfDecoder(bytes.slice(0, bytes.length - 10).buffer)
+        const header = decoder.decodeHeader() as EdfHeader
+        expect(header.live).toBe(true)
+        expect(header.dataRecordCount).toBe(2)
+        expect(decoder.decodeData(header)?.signals[0].length).toBe(200)
+    })
+    test('Repair a file that is still being recorded', () => {
+        const encoder = new EdfEncoder('eeg')
+        encoder.setHeader(createHeader())
+        encoder.setSignals([createSignal('EEG Fp1', 100, 300)])
+        const file = new Uint8Array(encoder.encode() as ArrayBuffer)
+        file.set(Array.from('-1      ', c => c.charCodeAt(0)), 236)
+        // The whole file has been read, so the records are already counted when the header is decoded.
+        const decoder = new EdfDecoder(file.buffer)
+        const header = decoder.decodeHeader() as EdfHeader
+        expect(header.dataRecordCount).toBe(3)
+        // Only the header has been read.
+        const headerOnly = new EdfDecoder(file.slice(0, header.headerRecordBytes).buffer)
+        headerOnly.decodeHeader()
+        expect(headerOnly.repairHeader({ fileSize: file.length })?.repairs?.map(
+            r => [r.field, r.original, r.repaired]
+        )).toEqual([['dataRecordCount', -1, 3]])
+        expect(decoder.repairHeader()?.repairs?.map(r => [r.field, r.original, r.repaired])).toEqual([
+            ['dataRecordCount', -1, 3],
+        ])
+        const repaired = new EdfDecoder(new EdfConverter().repair(file.buffer) as ArrayBuffer)
+        expect(repaired.decodeHeader()?.dataRecordCount).toBe(3)
+    })
+})
+
+describe('Epicurrents EDF processer tests', () => {
+    test('Export an excerpt of whole data records', async () => {
+        const encoder = new EdfEncoder('eeg')
+        encoder.setHeader(createHeader())
+        encoder.setSignals([createSignal('EEG Fp1', 100, 500)])
+        const processer = await createProcesser(encoder.encode() as ArrayBuffer)
+        const source = createSignal('EEG Fp1', 100, 500).data
+        // The excerpt is expanded to the end of the data record, instead of padding the record with zeroes.
+        for (const end of [3, 2.5]) {
+            const decoder = new EdfDecoder(await processer.exportExcerpt(1.5, end) as ArrayBuffer)
+            const header = decoder.decodeHeader() as EdfHeader
+            expect(header.dataRecordCount).toBe(2)
+            expect(header.recordingDate).toEqual(new Date(2020, 0, 1, 12, 30, 1))
+            const signal = decoder.decodeData(header)?.signals[0] as number[]
+            expect(signal.length).toBe(200)
+            expect(signal[0]).toBeCloseTo(source[100], 1)
+            expect(signal[199]).toBeCloseTo(source[299], 1)
+        }
+    })
+    test('Export an excerpt across a data gap', async () => {
+        const encoder = new EdfEncoder('eeg')
+        encoder.setHeader({ ...createHeader(), discontinuous: true })
+        encoder.setSignals([createSignal('EEG Fp1', 100, 400)])
+        encoder.setDataGaps(new Map([[2, 2]]))
+        encoder.setAnnotations([
+            { label: 'Before', start: 0.5 } as AnnotationTemplate,
+            { label: 'After gap', start: 4.5 } as AnnotationTemplate,
+        ])
+        const processer = await createProcesser(encoder.encode() as ArrayBuffer)
+        expect(processer.totalLength).toBe(6)
+        // Data gaps are detected when the signals are read.
+        await processer.getSignalPart(0, 6)
+        const decoder = new EdfDecoder(await processer.exportExcerpt(1, 5) as ArrayBuffer)
+        const header = decoder.decodeHeader() as EdfHeader
+        expect(header.discontinuous).toBe(true)
+        expect(header.dataRecordCount).toBe(2)
+        expect(header.recordingDate).toEqual(new Date(2020, 0, 1, 12, 30, 1))
+        const data = decoder.decodeData(header)
+        expect([...data!.dataGaps]).toEqual([[1, 2]])
+        expect(data!.annotations.map(a => [a.label, a.start])).toEqual([['After gap', 3.5]])
+    })
+    test('Export selected and derived signals', async () => {
+        const encoder = new EdfEncoder('eeg')
+        encoder.setHeader(createHeader())
+        const signals = [
+            createSignal('EEG Fp1', 100, 200),
+            createSignal('EEG F3', 100, 200),
+            createSignal('EEG C3', 100, 200),
+        ]
+        signals[1].data = signals[1].data.map(v => v/2)
+        signals[2].data = signals[2].data.map(v => -v)
+        encoder.setSignals(signals)
+        const processer = await createProcesser(encoder.encode() as ArrayBuffer)
+        const exportSignals = async (channels: EdfExportChannels) => {
+            const decoder = new EdfDecoder(await processer.exportExcerpt(0, 2, channels) as ArrayBuffer)
+            const header = decoder.decodeHeader() as EdfHeader
+            const data = decoder.decodeData(header)!
+            return header.signalInfo.map((info, i) => ({ data: data.signals[i], label: info.label }))
+                                    .filter(signal => signal.label !== 'EDF Annotations')
+        }
+        expect((await exportSignals({ include: [0, 2] })).map(s => s.label)).toEqual(['EEG Fp1', 'EEG C3'])
+        expect((await exportSignals({ exclude: [1] })).map(s => s.label)).toEqual(['EEG Fp1', 'EEG C3'])
+        const derived = await exportSignals({
+            derivations: [
+                { active: 0, label: 'Fp1-F3', reference: [1] },
+                { active: 0, label: 'Fp1-AVG', reference: 'average' },
+            ],
+            include: [2],
+        })
+        expect(derived.map(s => s.label)).toEqual(['EEG C3', 'Fp1-F3', 'Fp1-AVG'])
+        const source = signals[0].data
+        // Bipolar derivation: Fp1 - F3 = Fp1/2.
+        expect(derived[1].data[15]).toBeCloseTo(source[15]/2, 1)
+        // The average includes the active signal: Fp1 - (Fp1 + Fp1/2 - Fp1)/3 = 5/6*Fp1.
+        expect(derived[2].data[15]).toBeCloseTo(source[15]*5/6, 1)
+    })
+    test('Import annotations into the recording', async () => {
+        const encoder = new EdfEncoder('eeg')
+        encoder.setHeader(createHeader())
+        encoder.setSignals([createSignal('EEG Fp1', 100, 300)])
+        encoder.setAnnotations([{ label: 'Eyes closed', start: 0.5 } as AnnotationTemplate])
+        const processer = await createProcesser(encoder.encode() as ArrayBuffer)
+        const imported = processer.importAnnotations('onset\tduration\ttrial_type\n1.5\t0.5\tSpike\n10\t1\tLate\n')
+        // Annotations outside the recording are left out.
+        expect(imported?.map(a => a.label)).toEqual(['Spike'])
+        const decoder = new EdfDecoder(await processer.exportExcerpt(1, 3) as ArrayBuffer)
+        const header = decoder.decodeHeader() as EdfHeader
+        expect(decoder.decodeData(header)?.annotations.map(a => [a.label, a.start, a.duration])).toEqual([
+            ['Spike', 0.5, 0.5],
+        ])
+        const full = new EdfDecoder(await processer.exportExcerpt(0, 3) as ArrayBuffer)
+        expect(full.decodeData(full.decodeHeader() as EdfHeader)?.annotations.map(a => a.label)).toEqual([
+            'Eyes closed', 'Spike',
+        ])
+    })
+    test('Give the padded partial data record a timekeeping TAL', async () => {
+        const encoder = new EdfEncoder('eeg')
+        encoder.setHeader(createHeader())
+        encoder.setSignals([createSignal('EEG Fp1', 100, 300)])
+        const file = encoder.encode() as ArrayBuffer
+        // Truncate the annotation signal of the last data record.
+        const bytes = new Uint8Array(file.slice(0, file.byteLength - 10))
+        serveFile(() => bytes)
+        const decoder = new EdfDecoder(bytes.buffer)
+        decoder.decodeHeader()
+        const header = decoder.repairHeader({ fileSize: bytes.byteLength, partialRecord: 'pad' }) as EdfHeader
+        const processer = new EdfProcesser({
+            app: { dataChunkSize: 1_000_000, maxLoadCacheSize: 100_000_000 },
+        } as unknown as AppSettings)
+        await processer.setupStudy(EdfDecoder.HeaderToBiosignalHeader(header), header, 'http://localhost/test.edf')
+        const part = await processer.readPartFromFile(0, 3)
+        const data = new Uint8Array(await part!.data.arrayBuffer())
+        expect(data.length).toBe(3*header.recordByteSize)
+        const tal = data.subarray(2*header.recordByteSize + 200, 3*header.recordByteSize)
+        expect(String.fromCharCode(...tal.subarray(0, tal.indexOf(0)))).toBe('+2\x14\x14')
+    })
+    test('Follow a recording that is still being recorded', async () => {
+        const encoder = new EdfEncoder('eeg')
+        encoder.setHeader(createHeader())
+        encoder.setSignals([createSignal('EEG Fp1', 100, 400)])
+        const file = new Uint8Array(encoder.encode() as ArrayBuffer)
+        // Mark the file as still being recorded and serve the first two data records.
+        file.set(Array.from('-1      ', c => c.charCodeAt(0)), 236)
+        const header = new EdfDecoder(file.buffer).decodeHeader() as EdfHeader
+        let source = file.slice(0, header.headerRecordBytes + 2*header.recordByteSize)
+        serveFile(() => source)
+        header.dataRecordCount = 2
+        header.tail = { maxDuration: 10, pollInterval: 10 }
+        const processer = new EdfProcesser({
+            app: { dataChunkSize: 1_000_000, maxLoadCacheSize: 100_000_000 },
+        } as unknown as AppSettings)
+        await processer.setupStudy(EdfDecoder.HeaderToBiosignalHeader(header), header, 'http://localhost/test.edf')
+        // Room is reserved in the signal cache for the maximum duration of the recording.
+        const cache = processer.setupCache(processer.dataLength)
+        expect(await cache?.outputRangeEnd).toBe(10)
+        await processer.readAndCachePart(0)
+        expect(await processer.getSignalUpdatedRange()).toEqual({ start: 0, end: 2 })
+        const update = new Promise<{ [prop: string]: unknown }>(resolve => {
+            processer.setUpdateCallback(update => {
+                if (update.recordingLength) {
+                    resolve(update)
+                }
+            })
+        })
+        // The recording grows by two data records.
+        source = file
+        const { range, recordingLength } = await update
+        processer.setTailMode(null)
+        expect(range).toEqual([0, 4])
+        expect(recordingLength).toBe(4)
+        expect(processer.totalLength).toBe(4)
+        expect(await processer.getSignalUpdatedRange()).toEqual({ start: 0, end: 4 })
+    })
+})